@@ -1,14 +1,31 @@
 import { useEffect, useRef, useState } from 'react';
-import type { CustomNodeConfig, EconEdgeData, EconNodeData, GraphData } from './models/types';
+import type {
+  CustomNodeConfig,
+  EconEdgeData,
+  EconNodeData,
+  GraphData,
+  MonteCarloSettings,
+  PinnedControl,
+  Scenario,
+  ScenarioField,
+  SimulationSettings,
+} from './models/types';
 import { createCytoscape } from './graph/createCytoscape';
+import type { HistoryState } from './graph/createCytoscape';
+import { parseClipboardGraph } from './graph/clipboard';
+import { resolveSimulation } from './engine/calendar';
+import { stripComputedFields } from './engine/computeGraph';
+import type { GoalSeekOptions } from './engine/goalSeek';
 import { InspectorPanel } from './ui/InspectorPanel';
+import type { NodeUpdate } from './ui/BulkInspector';
 import { Toolbar } from './ui/Toolbar';
+import { ScenarioPanel } from './ui/ScenarioPanel';
+import { PinnedDashboard } from './ui/PinnedDashboard';
+import { TimeseriesChart } from './ui/TimeseriesChart';
+import { getDefaultBounds, getDefaultStep } from './ui/numericBounds';
 import demoGraph from './demo/coffeeToHouse.json';
 import './styles.css';
 
-const COFFEE_NODE_ID = 'coffee';
-const COFFEE_DEFAULT_VALUE = 5;
-
 type GraphController = ReturnType<typeof createCytoscape>;
 type CustomViewState = {
   parentGraph: GraphData;
@@ -29,6 +46,18 @@ const getInitialTheme = (): 'light' | 'dark' => {
   return 'light';
 };
 
+const isEditableTarget = (target: EventTarget | null) => {
+  const element = target as HTMLElement | null;
+  return Boolean(element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName)));
+};
+
+// Internal graphs from older saves can still carry computed fields, so both sides are compared without them.
+const isSameInternalGraph = (left: GraphData, right: GraphData) => {
+  const serialize = (graph: GraphData) =>
+    JSON.stringify({ nodes: graph.nodes.map(stripComputedFields), edges: graph.edges });
+  return serialize(left) === serialize(right);
+};
+
 const ensureCustomInputs = (custom: CustomNodeConfig) => {
   const internalGraph = {
     nodes: custom.internalGraph.nodes.map((node) => ({ ...node })),
@@ -73,8 +102,25 @@ export const App = () => {
   const controllerRef = useRef<GraphController | null>(null);
   const [selectedNode, setSelectedNode] = useState<EconNodeData | null>(null);
   const [selectedEdge, setSelectedEdge] = useState<EconEdgeData | null>(null);
-  const [disableCoffee, setDisableCoffee] = useState(false);
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
   const [nodeScale, setNodeScale] = useState(1);
+  const [simulation, setSimulation] = useState<SimulationSettings>(() =>
+    resolveSimulation((demoGraph as GraphData).simulation),
+  );
+  const [isComputing, setIsComputing] = useState(false);
+  const [computeError, setComputeError] = useState<string | null>(null);
+  const [monteCarlo, setMonteCarlo] = useState<MonteCarloSettings | null>(null);
+  const [scenarios, setScenarios] = useState<Scenario[]>(() => (demoGraph as GraphData).scenarios ?? []);
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(
+    () => (demoGraph as GraphData).activeScenarioId ?? null,
+  );
+  const [isScenarioPanelOpen, setIsScenarioPanelOpen] = useState(false);
+  const [pinnedControls, setPinnedControls] = useState<PinnedControl[]>(
+    () => (demoGraph as GraphData).pinnedControls ?? [],
+  );
+  // Copied out of the graph after each compute so rendering the dashboard doesn't walk every node.
+  const [graphNodes, setGraphNodes] = useState<EconNodeData[]>([]);
+  const [history, setHistory] = useState<HistoryState>({ canUndo: false, canRedo: false });
   const [customView, setCustomView] = useState<CustomViewState | null>(null);
   const customViewRef = useRef<CustomViewState | null>(null);
   const [theme, setTheme] = useState<'light' | 'dark'>(getInitialTheme);
@@ -104,16 +150,39 @@ export const App = () => {
     const viewState = { parentGraph: updatedParent, customNodeId: node.id };
     customViewRef.current = viewState;
     setCustomView(viewState);
-    controller.importGraph(ensuredCustom.internalGraph);
+    controller.pushHistoryScope();
+    controller.importGraph(ensuredCustom.internalGraph, { recordHistory: false });
     setSelectedNode(null);
     setSelectedEdge(null);
   };
 
+  const applyGraphSettings = (data: GraphData) => {
+    if (data.nodeScale !== undefined) {
+      setNodeScale(data.nodeScale);
+    }
+    if (data.simulation) {
+      setSimulation(resolveSimulation(data.simulation));
+    }
+    setScenarios(data.scenarios ?? []);
+    setActiveScenarioId(data.activeScenarioId ?? null);
+    setPinnedControls(data.pinnedControls ?? []);
+  };
+
+  const refreshSelectedNode = (updatedIds?: Set<string>) => {
+    setSelectedNode((current) => {
+      if (!current || (updatedIds && !updatedIds.has(current.id))) {
+        return current;
+      }
+      const updated = controllerRef.current?.cy.getElementById(current.id)?.data() as EconNodeData | undefined;
+      return updated ? { ...updated } : current;
+    });
+  };
+
   useEffect(() => {
     if (!containerRef.current || controllerRef.current) {
       return;
     }
-    controllerRef.current = createCytoscape(containerRef.current, demoGraph as GraphData, {
+    controllerRef.current = createCytoscape(containerRef.current, { ...(demoGraph as GraphData), simulation }, {
       onSelectNode: (node) => {
         setSelectedNode(node);
         if (node) {
@@ -126,10 +195,93 @@ export const App = () => {
           setSelectedNode(null);
         }
       },
+      onSelectionChange: setSelectedNodeIds,
       onOpenCustomNode: handleOpenCustomNode,
+      onComputed: (result) => {
+        refreshSelectedNode(new Set(result.nodes.map((node) => node.id)));
+        refreshGraphNodes();
+      },
+      onComputingChange: setIsComputing,
+      onComputeError: setComputeError,
+      onMonteCarloResult: () => {
+        refreshSelectedNode();
+        refreshGraphNodes();
+      },
+      onHistoryChange: setHistory,
+      onGraphRestore: applyGraphSettings,
     });
   }, []);
 
+  const syncSelectionFromGraph = () => {
+    setSelectedNode((current) => (current ? getNodeById(current.id) : null));
+    setSelectedEdge((current) => {
+      const updated = current
+        ? (controllerRef.current?.cy.getElementById(current.id)?.data() as EconEdgeData | undefined)
+        : undefined;
+      return updated ? { ...updated } : null;
+    });
+  };
+
+  const handleUndo = () => {
+    controllerRef.current?.undo();
+    syncSelectionFromGraph();
+  };
+
+  const handleRedo = () => {
+    controllerRef.current?.redo();
+    syncSelectionFromGraph();
+  };
+
+  const historyHandlersRef = useRef({ undo: handleUndo, redo: handleRedo });
+  historyHandlersRef.current = { undo: handleUndo, redo: handleRedo };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) {
+        return;
+      }
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        historyHandlersRef.current.undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        historyHandlersRef.current.redo();
+      } else if (key === 'd') {
+        event.preventDefault();
+        controllerRef.current?.duplicateSelection();
+      }
+    };
+    // The clipboard holds plain GraphData JSON so selections can move between tabs and custom-node views.
+    const handleCopy = (event: ClipboardEvent) => {
+      const data = isEditableTarget(event.target) ? null : controllerRef.current?.copySelection();
+      if (!data || !event.clipboardData) {
+        return;
+      }
+      event.preventDefault();
+      event.clipboardData.setData('text/plain', JSON.stringify(data, null, 2));
+    };
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isEditableTarget(event.target)) {
+        return;
+      }
+      const data = parseClipboardGraph(event.clipboardData?.getData('text/plain') ?? '');
+      if (!data) {
+        return;
+      }
+      event.preventDefault();
+      controllerRef.current?.pasteGraph(data);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    document.addEventListener('copy', handleCopy);
+    document.addEventListener('paste', handlePaste);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('copy', handleCopy);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, []);
+
   useEffect(() => {
     if (typeof window === 'undefined') {
       return;
@@ -146,6 +298,28 @@ export const App = () => {
     controller.setNodeScale(nodeScale);
   }, [nodeScale]);
 
+  useEffect(() => {
+    const controller = controllerRef.current;
+    if (!controller) {
+      return;
+    }
+    controller.setSimulation(simulation);
+    if (selectedNode) {
+      const updated = controller.cy.getElementById(selectedNode.id)?.data() as EconNodeData | undefined;
+      setSelectedNode(updated ? { ...updated } : null);
+    }
+  }, [simulation]);
+
+  useEffect(() => {
+    controllerRef.current?.setMonteCarlo(monteCarlo);
+  }, [monteCarlo]);
+
+  const activeScenario = customView ? null : scenarios.find((scenario) => scenario.id === activeScenarioId) ?? null;
+
+  useEffect(() => {
+    controllerRef.current?.setScenario(activeScenario);
+  }, [activeScenario]);
+
   const handleNodeChange = (nodeId: string, data: Partial<EconNodeData>) => {
     const controller = controllerRef.current;
     if (!controller) {
@@ -169,6 +343,17 @@ export const App = () => {
     controller.deleteNode(nodeId);
   };
 
+  const handleBulkChange = (updates: NodeUpdate[]) => {
+    controllerRef.current?.updateNodesData(updates);
+    refreshGraphNodes();
+  };
+
+  const handleNodesDelete = (nodeIds: string[]) => {
+    setSelectedNode(null);
+    setSelectedEdge(null);
+    controllerRef.current?.deleteNodes(nodeIds);
+  };
+
   const handleEdgeDelete = (edgeId: string) => {
     const controller = controllerRef.current;
     if (!controller) {
@@ -184,25 +369,16 @@ export const App = () => {
     if (!controller || !viewState) {
       return;
     }
-    const internalGraph = controller.exportGraph();
-    const updatedParent: GraphData = {
-      ...viewState.parentGraph,
-      nodes: viewState.parentGraph.nodes.map((node) => {
-        if (node.id !== viewState.customNodeId || !node.custom) {
-          return node;
-        }
-        return {
-          ...node,
-          custom: {
-            ...node.custom,
-            internalGraph,
-          },
-        };
-      }),
-    };
-    controller.importGraph(updatedParent);
-    const updatedCustom = updatedParent.nodes.find((node) => node.id === viewState.customNodeId) ?? null;
-    setSelectedNode(updatedCustom ? { ...updatedCustom } : null);
+    const { nodes, edges } = controller.exportGraph();
+    const internalGraph = { nodes, edges };
+    controller.popHistoryScope();
+    controller.importGraph({ ...viewState.parentGraph, simulation }, { recordHistory: false });
+    // Applying the edited internals as a node update makes the whole custom-view session one undo step.
+    const custom = viewState.parentGraph.nodes.find((node) => node.id === viewState.customNodeId)?.custom;
+    if (custom && !isSameInternalGraph(internalGraph, custom.internalGraph)) {
+      controller.updateNodeData(viewState.customNodeId, { custom: { ...custom, internalGraph } });
+    }
+    setSelectedNode(getNodeById(viewState.customNodeId));
     setSelectedEdge(null);
     customViewRef.current = null;
     setCustomView(null);
@@ -229,24 +405,52 @@ export const App = () => {
     return data ? { ...data } : null;
   };
 
-  const handleExport = () => controllerRef.current?.exportGraph() ?? (demoGraph as GraphData);
-
-  const handleImport = (data: GraphData) => {
-    if (data.nodeScale !== undefined) {
-      setNodeScale(data.nodeScale);
-    }
-    controllerRef.current?.importGraph(data);
-  };
-
-  const handleToggleCoffee = (value: boolean) => {
-    setDisableCoffee(value);
+  const getIncomingNodes = (nodeId: string) => {
     const controller = controllerRef.current;
     if (!controller) {
-      return;
+      return [];
     }
-    controller.updateNodeData(COFFEE_NODE_ID, {
-      baseValue: value ? 0 : COFFEE_DEFAULT_VALUE,
-    });
+    return controller.cy
+      .getElementById(nodeId)
+      .incomers('node')
+      .map((element) => ({ ...(element.data() as EconNodeData) }));
+  };
+
+  const handleRunSensitivity = (nodeId: string, percent: number) =>
+    controllerRef.current?.runSensitivity(nodeId, percent) ?? Promise.resolve(null);
+
+  const getNodes = () =>
+    controllerRef.current?.cy.nodes().map((node) => ({ ...(node.data() as EconNodeData) })) ?? [];
+
+  const refreshGraphNodes = () => setGraphNodes(getNodes());
+
+  const handlePinField = (nodeId: string, field: ScenarioField) => {
+    const value = getNodeById(nodeId)?.[field] ?? 0;
+    const bounds = getDefaultBounds(value);
+    setPinnedControls((controls) => [
+      ...controls,
+      { id: `pin-${nodeId}-${field}`, nodeId, field, ...bounds, step: getDefaultStep(bounds.min, bounds.max) },
+    ]);
+  };
+
+  const handlePinnedValueChange = (nodeId: string, field: ScenarioField, value: number) => {
+    controllerRef.current?.updateNodeData(nodeId, { [field]: value });
+    refreshGraphNodes();
+  };
+
+  const handleRunGoalSeek = (options: Omit<GoalSeekOptions, 'months'>) =>
+    controllerRef.current?.runGoalSeek(options) ?? Promise.resolve(null);
+
+  const handleExport = (): GraphData => ({
+    ...(controllerRef.current?.exportGraph() ?? (demoGraph as GraphData)),
+    scenarios,
+    activeScenarioId: activeScenarioId ?? undefined,
+    pinnedControls,
+  });
+
+  const handleImport = (data: GraphData) => {
+    controllerRef.current?.importGraph(data, { previous: handleExport() });
+    applyGraphSettings(data);
   };
 
   return (
@@ -255,16 +459,61 @@ export const App = () => {
         <Toolbar
           onExport={handleExport}
           onImport={handleImport}
-          disableCoffee={disableCoffee}
-          onToggleCoffee={handleToggleCoffee}
+          canUndo={history.canUndo}
+          canRedo={history.canRedo}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          scenarios={scenarios}
+          activeScenarioId={activeScenarioId}
+          onScenarioChange={setActiveScenarioId}
+          isScenarioPanelOpen={isScenarioPanelOpen}
+          onToggleScenarioPanel={() => setIsScenarioPanelOpen((open) => !open)}
           nodeScale={nodeScale}
           onNodeScaleChange={setNodeScale}
+          simulation={simulation}
+          isComputing={isComputing}
+          computeError={computeError}
+          monteCarlo={monteCarlo}
+          onMonteCarloChange={setMonteCarlo}
+          onSimulationChange={(settings) => setSimulation(resolveSimulation(settings))}
           isCustomView={Boolean(customView)}
           onExitCustomView={customView ? handleExitCustomView : undefined}
           theme={theme}
           onToggleTheme={() => setTheme((prev) => (prev === 'dark' ? 'light' : 'dark'))}
         />
+        {isScenarioPanelOpen && (
+          <ScenarioPanel
+            scenarios={scenarios}
+            activeScenarioId={activeScenarioId}
+            simulation={simulation}
+            getNodes={getNodes}
+            onChange={setScenarios}
+            onSelect={setActiveScenarioId}
+            onCompare={(items) => controllerRef.current?.compareScenarios(items) ?? Promise.resolve(null)}
+          />
+        )}
+        {!customView && pinnedControls.length > 0 && (
+          <PinnedDashboard
+            controls={pinnedControls}
+            nodes={graphNodes}
+            scenario={activeScenario}
+            simulation={simulation}
+            onValueChange={handlePinnedValueChange}
+            onControlChange={(controlId, data) =>
+              setPinnedControls((controls) =>
+                controls.map((control) => (control.id === controlId ? { ...control, ...data } : control)),
+              )
+            }
+            onUnpin={(controlId) =>
+              setPinnedControls((controls) => controls.filter((control) => control.id !== controlId))
+            }
+          />
+        )}
         <div className="canvas" ref={containerRef} />
+        <TimeseriesChart
+          nodes={selectedNodeIds.flatMap((nodeId) => getNodeById(nodeId) ?? [])}
+          simulation={simulation}
+        />
       </div>
       <InspectorPanel
         node={selectedNode}
@@ -272,8 +521,21 @@ export const App = () => {
         onChange={handleNodeChange}
         onChangeEdge={handleEdgeChange}
         getNodeById={getNodeById}
+        getIncomingNodes={getIncomingNodes}
+        simulation={simulation}
+        onRunSensitivity={handleRunSensitivity}
+        getNodes={getNodes}
+        pinnedControls={pinnedControls}
+        onPinField={handlePinField}
+        onRunGoalSeek={handleRunGoalSeek}
+        onApplyGoalSeek={(nodeId, data) => controllerRef.current?.updateNodeData(nodeId, data)}
         onDeleteNode={handleNodeDelete}
         onDeleteEdge={handleEdgeDelete}
+        selectedNodes={selectedNodeIds.length > 1 ? selectedNodeIds.flatMap((nodeId) => getNodeById(nodeId) ?? []) : []}
+        onBulkChange={handleBulkChange}
+        onDeleteNodes={handleNodesDelete}
+        onGroupSelection={() => controllerRef.current?.groupSelection()}
+        onInlineCustomNode={(nodeId) => controllerRef.current?.inlineCustomNode(nodeId)}
       />
     </div>
   );
@@ -0,0 +1,42 @@
+import type { SimulationSettings } from '../models/types';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const DEFAULT_HORIZON_MONTHS = 120;
+export const MAX_HORIZON_MONTHS = 1200;
+
+export const MONTH_OPTIONS = MONTH_NAMES.map((label, index) => ({ value: index + 1, label }));
+
+// A fixed start keeps graphs saved without simulation settings labelled the same on whatever day they are opened.
+export const DEFAULT_SIMULATION: SimulationSettings = {
+  horizonMonths: DEFAULT_HORIZON_MONTHS,
+  startMonth: 1,
+  startYear: 2025,
+};
+
+export const resolveSimulation = (settings?: Partial<SimulationSettings>): SimulationSettings => {
+  const defaults = DEFAULT_SIMULATION;
+  const horizon = Math.round(settings?.horizonMonths ?? defaults.horizonMonths);
+  const startMonth = Math.round(settings?.startMonth ?? defaults.startMonth);
+  const startYear = Math.round(settings?.startYear ?? defaults.startYear);
+  return {
+    horizonMonths: Number.isFinite(horizon)
+      ? Math.min(MAX_HORIZON_MONTHS, Math.max(1, horizon))
+      : defaults.horizonMonths,
+    startMonth: Number.isFinite(startMonth) ? Math.min(12, Math.max(1, startMonth)) : defaults.startMonth,
+    startYear: Number.isFinite(startYear) ? startYear : defaults.startYear,
+  };
+};
+
+export const getCalendarMonth = (settings: SimulationSettings, monthIndex: number) => {
+  const total = settings.startYear * 12 + (settings.startMonth - 1) + monthIndex;
+  return {
+    year: Math.floor(total / 12),
+    month: (total % 12) + 1,
+  };
+};
+
+export const formatMonthLabel = (settings: SimulationSettings, monthIndex: number) => {
+  const { year, month } = getCalendarMonth(settings, monthIndex);
+  return `${MONTH_NAMES[month - 1]} ${year}`;
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { EconEdgeData, EconNodeData } from '../models/types';
+import { createComputeClient } from './computeClient';
+
+const nodes: EconNodeData[] = [
+  { id: 'income', label: 'Income', kind: 'income', baseValue: 3000, timeUnit: 'per_month' },
+  { id: 'rent', label: 'Rent', kind: 'expense', baseValue: 1000, timeUnit: 'per_month' },
+  { id: 'savings', label: 'Savings', kind: 'calc', formula: 'income - rent' },
+];
+
+const edges: EconEdgeData[] = [
+  { id: 'income-savings', source: 'income', target: 'savings', kind: 'flow' },
+  { id: 'rent-savings', source: 'rent', target: 'savings', kind: 'flow' },
+];
+
+const valueOf = (result: { nodes: EconNodeData[] } | null, nodeId: string) =>
+  result?.nodes.find((node) => node.id === nodeId)?.computedValue;
+
+describe('createComputeClient', () => {
+  it('computes on the main thread when workers are unavailable', async () => {
+    expect(typeof Worker).toBe('undefined');
+    const onBusyChange = vi.fn();
+    const client = createComputeClient({ months: 12 }, onBusyChange);
+    client.load(nodes, edges);
+
+    const result = await client.compute();
+
+    expect(valueOf(result, 'savings')).toBe(2000);
+    expect(onBusyChange.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('drops superseded compute responses and merges their nodes into the latest one', async () => {
+    const client = createComputeClient({ months: 12 });
+    client.load(nodes, edges);
+    await client.compute();
+
+    client.updateNode({ ...nodes[0], baseValue: 4000 });
+    const first = client.compute();
+    client.updateNode({ ...nodes[1], baseValue: 1500 });
+    const second = client.compute();
+
+    expect(await first).toBeNull();
+    const latest = await second;
+    expect(valueOf(latest, 'income')).toBe(4000);
+    expect(valueOf(latest, 'savings')).toBe(2500);
+  });
+
+  it('rejects analysis requests that fail in the engine', async () => {
+    const client = createComputeClient({ months: 12 });
+
+    await expect(
+      client.runSensitivity({ nodes, edges, options: { targetId: 'missing', percent: 10, months: 12 } }),
+    ).rejects.toThrow('Unknown node: missing');
+  });
+});
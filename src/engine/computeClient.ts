@@ -0,0 +1,250 @@
+import type {
+  EconEdgeData,
+  EconNodeData,
+  GraphComputeResult,
+  MonteCarloResult,
+  GoalSeekResult,
+  MonteCarloSettings,
+  Scenario,
+  ScenarioComparison,
+  SensitivityResult,
+} from '../models/types';
+import { createGraphEngine, type ComputeOptions } from './computeGraph';
+import { runComputeCommand, type ComputeCommand, type ComputeResponse } from './computeProtocol';
+import type { GoalSeekOptions } from './goalSeek';
+import type { SensitivityOptions } from './sensitivity';
+
+type MonteCarloRequest = {
+  nodes: EconNodeData[];
+  edges: EconEdgeData[];
+  options: ComputeOptions & MonteCarloSettings;
+};
+
+type AnalysisRequest<Options> = {
+  nodes: EconNodeData[];
+  edges: EconEdgeData[];
+  options: Options;
+};
+
+type AnalysisType = 'sensitivity' | 'goalSeek' | 'scenarios';
+
+type PendingRequest<Result> = {
+  resolve: (result: Result | null) => void;
+  reject: (error: Error) => void;
+};
+
+type PendingAnalysis = PendingRequest<unknown> & { type: AnalysisType };
+
+export type ComputeClient = {
+  load: (nodes: EconNodeData[], edges: EconEdgeData[]) => void;
+  setMonths: (months: number | undefined) => void;
+  updateNode: (node: EconNodeData) => void;
+  removeNode: (nodeId: string) => void;
+  updateEdge: (edge: EconEdgeData) => void;
+  removeEdge: (edgeId: string) => void;
+  compute: (full?: boolean) => Promise<GraphComputeResult | null>;
+  runMonteCarlo: (request: MonteCarloRequest) => Promise<MonteCarloResult | null>;
+  runSensitivity: (request: AnalysisRequest<SensitivityOptions>) => Promise<SensitivityResult | null>;
+  runGoalSeek: (request: AnalysisRequest<GoalSeekOptions>) => Promise<GoalSeekResult | null>;
+  compareScenarios: (
+    request: AnalysisRequest<ComputeOptions & { scenarios: Scenario[] }>,
+  ) => Promise<ScenarioComparison | null>;
+};
+
+const createWorker = () => {
+  if (typeof Worker === 'undefined') {
+    return null;
+  }
+  try {
+    return new Worker(new URL('./computeWorker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return null;
+  }
+};
+
+export const createComputeClient = (
+  options: ComputeOptions = {},
+  onBusyChange?: (busy: boolean) => void,
+): ComputeClient => {
+  const worker = createWorker();
+  const engine = worker ? null : createGraphEngine(options);
+  const pending = new Map<number, PendingRequest<GraphComputeResult>>();
+  const monteCarloPending = new Map<number, PendingRequest<MonteCarloResult>>();
+  const analysisPending = new Map<number, PendingAnalysis>();
+  const latestAnalysisIds: Record<AnalysisType, number> = { sensitivity: 0, goalSeek: 0, scenarios: 0 };
+  let staleNodes = new Map<string, EconNodeData>();
+  let latestRequestId = 0;
+  let latestMonteCarloId = 0;
+  let latestAnalysisId = 0;
+  let monteCarloInFlight = false;
+  let queuedMonteCarlo: { requestId: number; request: MonteCarloRequest } | null = null;
+  let busy = false;
+
+  const updateBusy = () => {
+    const nextBusy = pending.size > 0 || monteCarloInFlight || analysisPending.size > 0;
+    if (nextBusy !== busy) {
+      busy = nextBusy;
+      onBusyChange?.(busy);
+    }
+  };
+
+  const settleCompute = (requestId: number, result: GraphComputeResult | null, error?: string) => {
+    const request = pending.get(requestId);
+    pending.delete(requestId);
+    updateBusy();
+    if (requestId !== latestRequestId) {
+      result?.nodes.forEach((node) => staleNodes.set(node.id, node));
+      request?.resolve(null);
+      return;
+    }
+    if (!result) {
+      request?.reject(new Error(error ?? 'Compute failed'));
+      return;
+    }
+    const merged = staleNodes;
+    staleNodes = new Map();
+    result.nodes.forEach((node) => merged.set(node.id, node));
+    request?.resolve({ ...result, nodes: Array.from(merged.values()) });
+  };
+
+  const send = (command: ComputeCommand) => {
+    if (worker) {
+      worker.postMessage(command);
+      return;
+    }
+    const response = runComputeCommand(engine!, command);
+    if (response) {
+      queueMicrotask(() => handleResponse(response));
+    }
+  };
+
+  const postMonteCarlo = (requestId: number, request: MonteCarloRequest) => {
+    monteCarloInFlight = true;
+    send({ type: 'monteCarlo', requestId, ...request });
+  };
+
+  const settleMonteCarlo = (requestId: number, result: MonteCarloResult | null, error?: string) => {
+    const request = monteCarloPending.get(requestId);
+    monteCarloPending.delete(requestId);
+    monteCarloInFlight = false;
+    if (requestId !== latestMonteCarloId) {
+      request?.resolve(null);
+    } else if (error) {
+      request?.reject(new Error(error));
+    } else {
+      request?.resolve(result);
+    }
+    if (queuedMonteCarlo) {
+      const next = queuedMonteCarlo;
+      queuedMonteCarlo = null;
+      postMonteCarlo(next.requestId, next.request);
+    }
+    updateBusy();
+  };
+
+  const settleAnalysis = (requestId: number, result: unknown, error?: string) => {
+    const request = analysisPending.get(requestId);
+    analysisPending.delete(requestId);
+    updateBusy();
+    if (!request || requestId !== latestAnalysisIds[request.type]) {
+      request?.resolve(null);
+    } else if (error) {
+      request?.reject(new Error(error));
+    } else {
+      request?.resolve(result);
+    }
+  };
+
+  const handleResponse = (response: ComputeResponse) => {
+    if (response.type === 'compute') {
+      settleCompute(response.requestId, response.result, response.error);
+    } else if (response.type === 'monteCarlo') {
+      settleMonteCarlo(response.requestId, response.result, response.error);
+    } else {
+      settleAnalysis(response.requestId, response.result, response.error);
+    }
+  };
+
+  // A worker-level failure can't be traced to one request, so everything in flight is rejected.
+  const failAll = (error: Error) => {
+    const rejects = [...pending.values(), ...monteCarloPending.values(), ...analysisPending.values()].map(
+      (request) => request.reject,
+    );
+    pending.clear();
+    monteCarloPending.clear();
+    analysisPending.clear();
+    staleNodes = new Map();
+    monteCarloInFlight = false;
+    queuedMonteCarlo = null;
+    updateBusy();
+    rejects.forEach((reject) => reject(error));
+  };
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<ComputeResponse>) => handleResponse(event.data);
+    worker.onerror = (event) => {
+      event.preventDefault();
+      failAll(new Error(event.message || 'Compute worker failed'));
+    };
+    worker.onmessageerror = () => failAll(new Error('Compute worker sent a message that could not be read'));
+    send({ type: 'setMonths', months: options.months });
+  }
+
+  const compute = (full = false) => {
+    latestRequestId += 1;
+    const requestId = latestRequestId;
+    return new Promise<GraphComputeResult | null>((resolve, reject) => {
+      pending.set(requestId, { resolve, reject });
+      updateBusy();
+      send({ type: 'compute', requestId, full });
+    });
+  };
+
+  const runMonteCarlo = (request: MonteCarloRequest) => {
+    latestMonteCarloId += 1;
+    const requestId = latestMonteCarloId;
+    return new Promise<MonteCarloResult | null>((resolve, reject) => {
+      monteCarloPending.set(requestId, { resolve, reject });
+      if (!monteCarloInFlight) {
+        postMonteCarlo(requestId, request);
+      } else {
+        if (queuedMonteCarlo) {
+          monteCarloPending.get(queuedMonteCarlo.requestId)?.resolve(null);
+          monteCarloPending.delete(queuedMonteCarlo.requestId);
+        }
+        queuedMonteCarlo = { requestId, request };
+      }
+      updateBusy();
+    });
+  };
+
+  const runAnalysis = <Result>(type: AnalysisType, post: (requestId: number) => void) => {
+    latestAnalysisId += 1;
+    const requestId = latestAnalysisId;
+    latestAnalysisIds[type] = requestId;
+    return new Promise<Result | null>((resolve, reject) => {
+      analysisPending.set(requestId, { type, resolve: resolve as (result: unknown) => void, reject });
+      updateBusy();
+      post(requestId);
+    });
+  };
+
+  return {
+    load: (nodes, edges) => send({ type: 'load', nodes, edges }),
+    setMonths: (months) => send({ type: 'setMonths', months }),
+    updateNode: (node) => send({ type: 'updateNode', node }),
+    removeNode: (nodeId) => send({ type: 'removeNode', nodeId }),
+    updateEdge: (edge) => send({ type: 'updateEdge', edge }),
+    removeEdge: (edgeId) => send({ type: 'removeEdge', edgeId }),
+    compute,
+    runMonteCarlo,
+    runSensitivity: (request) =>
+      runAnalysis<SensitivityResult>('sensitivity', (requestId) =>
+        send({ type: 'sensitivity', requestId, ...request }),
+      ),
+    runGoalSeek: (request) =>
+      runAnalysis<GoalSeekResult>('goalSeek', (requestId) => send({ type: 'goalSeek', requestId, ...request })),
+    compareScenarios: (request) =>
+      runAnalysis<ScenarioComparison>('scenarios', (requestId) => send({ type: 'scenarios', requestId, ...request })),
+  };
+};
@@ -0,0 +1,304 @@
+import { describe, expect, it } from 'vitest';
+import type { EconEdgeData, EconNodeData } from '../models/types';
+import { computeGraph, createGraphEngine } from './computeGraph';
+
+const income: EconNodeData = { id: 'income', label: 'Income', kind: 'income', baseValue: 1000, timeUnit: 'per_month' };
+
+const findNode = (nodes: EconNodeData[], nodeId: string) => nodes.find((node) => node.id === nodeId);
+
+describe('computeGraph', () => {
+  it('feeds a lagged self-loop its previous month', () => {
+    const nodes: EconNodeData[] = [income, { id: 'bal', label: 'Balance', kind: 'calc', formula: 'income + bal' }];
+    const edges: EconEdgeData[] = [
+      { id: 'income-bal', source: 'income', target: 'bal', kind: 'flow' },
+      { id: 'bal-bal', source: 'bal', target: 'bal', kind: 'flow', lagMonths: 1 },
+    ];
+
+    const result = computeGraph(nodes, edges, { months: 12 });
+
+    expect(result.errors).toEqual({});
+    const expected = Array.from({ length: 12 }, (_, month) => 1000 * (month + 1));
+    expect(findNode(result.nodes, 'bal')?.timeseries).toEqual(expected);
+  });
+
+  it('settles a lagged running balance over a 480-month horizon', () => {
+    const nodes: EconNodeData[] = [
+      income,
+      { id: 'balance', label: 'Balance', kind: 'calc', formula: 'income + carried' },
+      { id: 'carried', label: 'Carried', kind: 'value', baseValue: 0 },
+    ];
+    const edges: EconEdgeData[] = [
+      { id: 'income-balance', source: 'income', target: 'balance', kind: 'flow' },
+      { id: 'carried-balance', source: 'carried', target: 'balance', kind: 'flow' },
+      { id: 'balance-carried', source: 'balance', target: 'carried', kind: 'flow', lagMonths: 1 },
+    ];
+
+    const result = computeGraph(nodes, edges, { months: 480 });
+
+    expect(result.errors).toEqual({});
+    const series = findNode(result.nodes, 'balance')?.timeseries ?? [];
+    expect(series).toHaveLength(480);
+    expect(series[239]).toBe(240000);
+    expect(series[479]).toBe(480000);
+  });
+
+  it('delays an unlagged asset edge that closes a loop by one month', () => {
+    const nodes: EconNodeData[] = [
+      income,
+      { id: 'saving', label: 'Saving', kind: 'calc', formula: 'income + fund * 0.01' },
+      { id: 'fund', label: 'Fund', kind: 'asset', interestRateAnnual: 0 },
+    ];
+    const edges: EconEdgeData[] = [
+      { id: 'income-saving', source: 'income', target: 'saving', kind: 'flow' },
+      { id: 'saving-fund', source: 'saving', target: 'fund', kind: 'flow' },
+      { id: 'fund-saving', source: 'fund', target: 'saving', kind: 'flow' },
+    ];
+
+    const result = computeGraph(nodes, edges, { months: 3 });
+
+    expect(result.delayedEdgeIds).toEqual(['fund-saving']);
+    expect(findNode(result.nodes, 'saving')?.timeseries).toEqual([1000, 1010, 1020.1]);
+    expect(findNode(result.nodes, 'fund')?.timeseries).toEqual([1000, 2010, 3030.1]);
+  });
+
+  it('rejects a loop with no delay', () => {
+    const nodes: EconNodeData[] = [
+      { id: 'a', label: 'A', kind: 'value', baseValue: 1 },
+      { id: 'b', label: 'B', kind: 'value', baseValue: 1 },
+    ];
+    const edges: EconEdgeData[] = [
+      { id: 'a-b', source: 'a', target: 'b', kind: 'flow' },
+      { id: 'b-a', source: 'b', target: 'a', kind: 'flow' },
+    ];
+
+    const result = computeGraph(nodes, edges, { months: 3 });
+
+    expect(result.errors.a).toMatch(/^Cycle with no delay/);
+    expect(findNode(result.nodes, 'a')?.timeseries).toBeUndefined();
+  });
+
+  it('reports the month a feedback loop fails in', () => {
+    const nodes: EconNodeData[] = [
+      { id: 'limit', label: 'Limit', kind: 'value', baseValue: 3 },
+      { id: 'ratio', label: 'Ratio', kind: 'divide' },
+      { id: 'carried', label: 'Carried', kind: 'value', baseValue: 0 },
+    ];
+    const edges: EconEdgeData[] = [
+      { id: 'limit-ratio', source: 'limit', target: 'ratio', kind: 'flow', targetPort: 'left' },
+      { id: 'carried-ratio', source: 'carried', target: 'ratio', kind: 'flow', targetPort: 'right' },
+      { id: 'ratio-carried', source: 'ratio', target: 'carried', kind: 'flow', lagMonths: 1 },
+    ];
+
+    const result = computeGraph(nodes, edges, { months: 6 });
+
+    expect(result.errors).toEqual({
+      ratio: 'Division by zero',
+      carried: 'Feedback loop stopped in month 1: Division by zero',
+    });
+  });
+
+  it('amortizes a loan and stops paying once an extra payment clears it early', () => {
+    const loan: EconNodeData = {
+      id: 'loan',
+      label: 'Loan',
+      kind: 'loan',
+      principal: 1200,
+      interestRateAnnual: 0,
+      termMonths: 12,
+      extraPayment: 100,
+    };
+
+    const result = computeGraph([loan], [], { months: 8 });
+
+    const schedule = findNode(result.nodes, 'loan')?.loanSchedule;
+    expect(schedule?.scheduledPayment).toBe(200);
+    expect(schedule?.payoffMonth).toBe(6);
+    expect(schedule?.payment).toEqual([200, 200, 200, 200, 200, 200, 0, 0]);
+    expect(schedule?.balance.slice(4)).toEqual([200, 0, 0, 0]);
+  });
+
+  it('splits loan payments into interest and principal', () => {
+    const loan: EconNodeData = { id: 'loan', label: 'Loan', kind: 'loan', principal: 1000, interestRateAnnual: 0.12 };
+
+    expect(computeGraph([loan], [], { months: 12 }).errors.loan).toBe('Loan term must be at least one month');
+
+    const result = computeGraph([{ ...loan, termMonths: 12 }], [], { months: 12 });
+    const schedule = findNode(result.nodes, 'loan')?.loanSchedule;
+    expect(schedule?.scheduledPayment).toBeCloseTo(88.8488, 4);
+    expect(schedule?.interest[0]).toBeCloseTo(10, 10);
+    expect(schedule?.principal[0]).toBeCloseTo(78.8488, 4);
+    expect(schedule?.payoffMonth).toBe(12);
+    expect(schedule?.totalInterest).toBeCloseTo(66.1855, 4);
+  });
+
+  it('taxes income through progressive brackets and exposes net and owed ports', () => {
+    const nodes: EconNodeData[] = [
+      { ...income, baseValue: 2000 },
+      {
+        id: 'tax',
+        label: 'Tax',
+        kind: 'tax',
+        taxBrackets: [
+          { threshold: 12000, rate: 0.2 },
+          { threshold: 0, rate: 0.1 },
+        ],
+        standardDeduction: 0,
+      },
+      { id: 'net', label: 'Net', kind: 'value' },
+      { id: 'owed', label: 'Owed', kind: 'value' },
+    ];
+    const edges: EconEdgeData[] = [
+      { id: 'income-tax', source: 'income', target: 'tax', kind: 'flow' },
+      { id: 'tax-net', source: 'tax', target: 'net', kind: 'flow', sourcePort: 'net' },
+      { id: 'tax-owed', source: 'tax', target: 'owed', kind: 'flow', sourcePort: 'tax' },
+    ];
+
+    const result = computeGraph(nodes, edges, { months: 12 });
+
+    expect(result.errors).toEqual({});
+    expect(findNode(result.nodes, 'tax')?.outputValues).toEqual({ net: 1700, tax: 300 });
+    expect(findNode(result.nodes, 'net')?.computedValue).toBe(1700);
+    expect(findNode(result.nodes, 'owed')?.computedValue).toBe(300);
+  });
+
+  it('rejects tax rates outside 0 to 1', () => {
+    const tax: EconNodeData = { id: 'tax', label: 'Tax', kind: 'tax', taxBrackets: [{ threshold: 0, rate: 20 }] };
+
+    expect(computeGraph([tax], [], { months: 12 }).errors.tax).toBe('Tax rates must be between 0 and 1');
+  });
+
+  it('grows a flow once a year and zeroes it outside its start and end months', () => {
+    const salary: EconNodeData = { ...income, growthRateAnnual: 0.1, startMonth: 2, endMonth: 14 };
+
+    const series = findNode(computeGraph([salary], [], { months: 15 }).nodes, 'income')?.timeseries ?? [];
+
+    expect(series.slice(0, 2)).toEqual([0, 1000]);
+    expect(series[11]).toBe(1000);
+    expect(series.slice(12)).toEqual([1100, 1100, 0]);
+  });
+
+  it('rejects an end month before the start month', () => {
+    const salary: EconNodeData = { ...income, startMonth: 6, endMonth: 3 };
+
+    expect(computeGraph([salary], [], { months: 12 }).errors.income).toBe('End month is before start month');
+  });
+
+  it('places one-off and recurring events in their months', () => {
+    const bonus: EconNodeData = {
+      id: 'bonus',
+      label: 'Bonus',
+      kind: 'event',
+      events: [
+        { id: 'quarterly', label: 'Quarterly', amount: 500, month: 3, repeatEveryMonths: 4, endMonth: 11 },
+        { id: 'gift', label: 'Gift', amount: 250, month: 7 },
+      ],
+    };
+
+    const series = findNode(computeGraph([bonus], [], { months: 12 }).nodes, 'bonus')?.timeseries;
+
+    expect(series).toEqual([0, 0, 500, 0, 0, 0, 750, 0, 0, 0, 500, 0]);
+  });
+
+  it('rejects an event before month 1', () => {
+    const bonus: EconNodeData = {
+      id: 'bonus',
+      label: 'Bonus',
+      kind: 'event',
+      events: [{ id: 'early', label: 'Early', amount: 100, month: 0 }],
+    };
+
+    const result = computeGraph([bonus], [], { months: 12 });
+
+    expect(result.errors.bonus).toBe('Event Early needs a first month of 1 or later');
+  });
+
+  it('treats summed flows within float error as equal in a condition', () => {
+    const nodes: EconNodeData[] = [
+      { id: 'a', label: 'A', kind: 'value', baseValue: 0.1 },
+      { id: 'b', label: 'B', kind: 'value', baseValue: 0.2 },
+      { id: 'check', label: 'Check', kind: 'condition', comparison: 'eq', threshold: 0.3, thenValue: 1, elseValue: 0 },
+    ];
+    const edges: EconEdgeData[] = [
+      { id: 'a-check', source: 'a', target: 'check', kind: 'flow', targetPort: 'condition' },
+      { id: 'b-check', source: 'b', target: 'check', kind: 'flow', targetPort: 'condition' },
+    ];
+
+    const result = computeGraph(nodes, edges, { months: 2 });
+
+    expect(findNode(result.nodes, 'check')?.timeseries).toEqual([1, 1]);
+  });
+
+  it('routes connected then/else inputs and requires a condition input', () => {
+    const nodes: EconNodeData[] = [
+      { ...income, growthRateAnnual: 1 },
+      { id: 'check', label: 'Check', kind: 'condition', comparison: 'gt', threshold: 1500 },
+      { id: 'high', label: 'High', kind: 'value', baseValue: 10 },
+    ];
+    const edges: EconEdgeData[] = [
+      { id: 'income-check', source: 'income', target: 'check', kind: 'flow', targetPort: 'condition' },
+      { id: 'high-check', source: 'high', target: 'check', kind: 'flow', targetPort: 'then' },
+    ];
+
+    const result = computeGraph(nodes, edges, { months: 13 });
+
+    expect(findNode(result.nodes, 'check')?.timeseries?.slice(11)).toEqual([0, 10]);
+    expect(computeGraph(nodes.slice(1), edges.slice(1), { months: 1 }).errors.check).toBe('Missing condition input');
+  });
+
+  it('recomputes only the nodes downstream of an edit, including a feedback loop', () => {
+    const nodes: EconNodeData[] = [
+      income,
+      { id: 'rent', label: 'Rent', kind: 'expense', baseValue: 800, timeUnit: 'per_month' },
+      { id: 'saving', label: 'Saving', kind: 'calc', formula: 'income + fund * 0.01' },
+      { id: 'fund', label: 'Fund', kind: 'asset', interestRateAnnual: 0 },
+    ];
+    const edges: EconEdgeData[] = [
+      { id: 'income-saving', source: 'income', target: 'saving', kind: 'flow' },
+      { id: 'saving-fund', source: 'saving', target: 'fund', kind: 'flow' },
+      { id: 'fund-saving', source: 'fund', target: 'saving', kind: 'flow' },
+    ];
+    const engine = createGraphEngine({ months: 3 });
+    engine.load(nodes, edges);
+    engine.compute();
+
+    engine.updateNode({ ...income, baseValue: 2000 });
+    const result = engine.compute();
+
+    expect(result.nodes.map((node) => node.id).sort()).toEqual(['fund', 'income', 'saving']);
+    expect(findNode(result.nodes, 'fund')?.timeseries).toEqual([2000, 4020, 6060.2]);
+    expect(findNode(engine.getResult().nodes, 'rent')?.computedValue).toBe(800);
+  });
+
+  it('pinpoints the members of an undelayed cycle and computes the rest of the graph', () => {
+    const nodes: EconNodeData[] = [
+      income,
+      { id: 'a', label: 'A', kind: 'calc', formula: 'income + b' },
+      { id: 'b', label: 'B', kind: 'calc', formula: 'a * 0.5' },
+      { id: 'after', label: 'After', kind: 'value' },
+    ];
+    const edges: EconEdgeData[] = [
+      { id: 'income-a', source: 'income', target: 'a', kind: 'flow' },
+      { id: 'b-a', source: 'b', target: 'a', kind: 'flow' },
+      { id: 'a-b', source: 'a', target: 'b', kind: 'flow' },
+      { id: 'b-after', source: 'b', target: 'after', kind: 'flow' },
+    ];
+    const engine = createGraphEngine({ months: 2 });
+    engine.load(nodes, edges);
+
+    const result = engine.compute();
+
+    expect(result.cycles).toHaveLength(1);
+    expect([...(result.cycles?.[0].nodeIds ?? [])].sort()).toEqual(['a', 'b']);
+    expect([...(result.cycles?.[0].edgeIds ?? [])].sort()).toEqual(['a-b', 'b-a']);
+    expect(Object.keys(result.errors).sort()).toEqual(['a', 'b']);
+    expect(result.errors.a).toMatch(/^Cycle with no delay: /);
+    expect(findNode(result.nodes, 'income')?.computedValue).toBe(1000);
+
+    engine.updateEdge({ ...edges[1], lagMonths: 1 });
+    const fixed = engine.compute();
+
+    expect(fixed.errors).toEqual({});
+    expect(fixed.cycles).toEqual([]);
+    expect(findNode(fixed.nodes, 'after')?.timeseries).toEqual([500, 750]);
+  });
+});
@@ -1,17 +1,24 @@
-import type { EconEdgeData, EconNodeData, GraphComputeResult, TimeUnit } from '../models/types';
-
-type TokenType = 'number' | 'identifier' | 'operator' | 'lparen' | 'rparen' | 'comma';
-
-type Token = {
-  type: TokenType;
-  value: string;
-};
-
-type RpnToken =
-  | { type: 'number'; value: number }
-  | { type: 'identifier'; value: string }
-  | { type: 'operator'; value: string }
-  | { type: 'function'; value: string; argCount: number };
+import type {
+  ComparisonOperator,
+  EconEdgeData,
+  EconNodeData,
+  GraphComputeResult,
+  GraphCycle,
+  LoanSchedule,
+  ScheduledEvent,
+  TaxBracket,
+  TimeUnit,
+} from '../models/types';
+import {
+  BINARY_PORT_IDS,
+  CONDITION_PORT_IDS,
+  TAX_NET_PORT_ID,
+  TAX_OUTPUT_PORTS,
+  TAX_OWED_PORT_ID,
+} from '../models/ports';
+import { DEFAULT_HORIZON_MONTHS } from './calendar';
+import { FormulaError, compileFormula, evaluateRpn } from './formula';
+import type { RpnToken } from './formula';
 
 const TIME_UNIT_MULTIPLIERS: Record<TimeUnit, number> = {
   per_day: 30,
@@ -20,22 +27,23 @@ const TIME_UNIT_MULTIPLIERS: Record<TimeUnit, number> = {
   per_year: 1 / 12,
 };
 
+export type ComputeOptions = {
+  months?: number;
+};
+
 const sumValues = (values: number[]) => values.reduce((total, value) => total + value, 0);
+const buildSeries = (months: number, valueAt: (month: number) => number) =>
+  Array.from({ length: months }, (_, month) => valueAt(month));
+const constantSeries = (months: number, value: number) => buildSeries(months, () => value);
+const sumSeries = (series: number[][], months: number) =>
+  buildSeries(months, (month) => series.reduce((total, item) => total + (item[month] ?? 0), 0));
+const valuesAtMonth = (series: number[][], month: number) => series.map((item) => item[month] ?? 0);
+const summarizeFlow = (series: number[]) => (series.length === 0 ? 0 : sumValues(series) / series.length);
 const getDefaultPair = (node: EconNodeData, fallback: { left: number; right: number }) => ({
   left: node.leftValue ?? fallback.left,
   right: node.rightValue ?? fallback.right,
 });
 
-const OPERATORS: Record<string, { precedence: number; assoc: 'left' | 'right'; args: number }> = {
-  '+': { precedence: 1, assoc: 'left', args: 2 },
-  '-': { precedence: 1, assoc: 'left', args: 2 },
-  '*': { precedence: 2, assoc: 'left', args: 2 },
-  '/': { precedence: 2, assoc: 'left', args: 2 },
-  'u-': { precedence: 3, assoc: 'right', args: 1 },
-};
-
-const FUNCTIONS = new Set(['sum', 'min', 'max']);
-
 const normalizeMonthlyValue = (value: number | undefined, unit: TimeUnit | undefined) => {
   if (value === undefined) {
     return 0;
@@ -44,500 +52,724 @@ const normalizeMonthlyValue = (value: number | undefined, unit: TimeUnit | undef
   return value * multiplier;
 };
 
-const tokenize = (expression: string): Token[] => {
-  const tokens: Token[] = [];
-  const regex = /\s*([A-Za-z_][A-Za-z0-9_]*|\d+(?:\.\d+)?|[()+\-*/]|,)/g;
-  let match: RegExpExecArray | null;
-
-  while ((match = regex.exec(expression)) !== null) {
-    const value = match[1];
-    if (!Number.isNaN(Number(value))) {
-      tokens.push({ type: 'number', value });
-    } else if (value === '(') {
-      tokens.push({ type: 'lparen', value });
-    } else if (value === ')') {
-      tokens.push({ type: 'rparen', value });
-    } else if (value === ',') {
-      tokens.push({ type: 'comma', value });
-    } else if (value === '+' || value === '-' || value === '*' || value === '/') {
-      tokens.push({ type: 'operator', value });
-    } else {
-      tokens.push({ type: 'identifier', value });
-    }
+const isWithinWindow = (month: number, node: EconNodeData) => {
+  const monthNumber = month + 1;
+  if (node.startMonth !== undefined && monthNumber < node.startMonth) {
+    return false;
+  }
+  if (node.endMonth !== undefined && monthNumber > node.endMonth) {
+    return false;
   }
+  return true;
+};
+
+const computeFlowSeries = (node: EconNodeData, months: number) => {
+  const monthly = normalizeMonthlyValue(node.baseValue, node.timeUnit);
+  const growth = 1 + (node.growthRateAnnual ?? 0);
+  return buildSeries(months, (month) =>
+    isWithinWindow(month, node) ? monthly * growth ** Math.floor(month / 12) : 0,
+  );
+};
 
-  return tokens;
+const normalizeMathPort = (port?: string) => {
+  if (port === 'left') {
+    return '1';
+  }
+  if (port === 'right') {
+    return '2';
+  }
+  return port;
 };
 
-const toRpn = (tokens: Token[]): RpnToken[] => {
-  const output: RpnToken[] = [];
-  const operators: Token[] = [];
-  const argCounts: number[] = [];
+const splitPortInputs = (incomingEdges: EconEdgeData[], incomingValues: number[], portIds: string[]) => {
+  const assigned = portIds.map((): number[] => []);
+  const unassigned: number[] = [];
 
-  const getPrevTokenType = (index: number) => {
-    if (index === 0) {
-      return null;
-    }
-    for (let i = index - 1; i >= 0; i -= 1) {
-      const token = tokens[i];
-      if (token.type !== 'comma') {
-        return token.type;
-      }
+  incomingEdges.forEach((edge, index) => {
+    const value = incomingValues[index] ?? 0;
+    const portIndex = portIds.indexOf(normalizeMathPort(edge.targetPort) ?? '');
+    if (portIndex === -1) {
+      unassigned.push(value);
+      return;
     }
-    return null;
+    assigned[portIndex].push(value);
+  });
+
+  if (unassigned.length > 0) {
+    const emptyPorts = portIds.map((_, index) => index).filter((index) => assigned[index].length === 0);
+    const targets = emptyPorts.length > 0 ? emptyPorts : [portIds.length - 1];
+    unassigned.forEach((value, index) => {
+      assigned[targets[Math.min(index, targets.length - 1)]].push(value);
+    });
+  }
+
+  return {
+    totals: assigned.map((values) => sumValues(values)),
+    counts: assigned.map((values) => values.length),
   };
+};
 
-  for (let i = 0; i < tokens.length; i += 1) {
-    const token = tokens[i];
-    switch (token.type) {
-      case 'number':
-        output.push({ type: 'number', value: Number(token.value) });
-        break;
-      case 'identifier': {
-        const next = tokens[i + 1];
-        if (next?.type === 'lparen') {
-          operators.push(token);
-          argCounts.push(0);
-        } else {
-          output.push({ type: 'identifier', value: token.value });
-        }
-        break;
-      }
-      case 'operator': {
-        const prevType = getPrevTokenType(i);
-        const opValue =
-          token.value === '-' && (prevType === null || prevType === 'operator' || prevType === 'lparen')
-            ? 'u-'
-            : token.value;
-        const opInfo = OPERATORS[opValue];
-        while (operators.length > 0) {
-          const top = operators[operators.length - 1];
-          if (top.type === 'operator') {
-            const topInfo = OPERATORS[top.value];
-            if (
-              (opInfo.assoc === 'left' && opInfo.precedence <= topInfo.precedence) ||
-              (opInfo.assoc === 'right' && opInfo.precedence < topInfo.precedence)
-            ) {
-              output.push({ type: 'operator', value: operators.pop()!.value });
-              continue;
-            }
-          } else if (top.type === 'identifier') {
-            break;
-          }
-          break;
-        }
-        operators.push({ type: 'operator', value: opValue });
-        break;
-      }
-      case 'lparen':
-        operators.push(token);
-        break;
-      case 'comma':
-        while (operators.length > 0 && operators[operators.length - 1].type !== 'lparen') {
-          const op = operators.pop()!;
-          if (op.type === 'operator') {
-            output.push({ type: 'operator', value: op.value });
-          } else {
-            output.push({ type: 'identifier', value: op.value });
-          }
-        }
-        if (argCounts.length > 0) {
-          argCounts[argCounts.length - 1] += 1;
-        }
-        break;
-      case 'rparen':
-        while (operators.length > 0 && operators[operators.length - 1].type !== 'lparen') {
-          const op = operators.pop()!;
-          if (op.type === 'operator') {
-            output.push({ type: 'operator', value: op.value });
-          } else {
-            output.push({ type: 'identifier', value: op.value });
-          }
-        }
-        if (operators.length === 0) {
-          throw new Error('Mismatched parentheses');
-        }
-        operators.pop();
-        if (operators.length > 0 && operators[operators.length - 1].type === 'identifier') {
-          const funcToken = operators.pop()!;
-          const argCount = (argCounts.pop() ?? 0) + 1;
-          output.push({ type: 'function', value: funcToken.value, argCount });
-        }
-        break;
-      default:
-        break;
-    }
+const splitBinaryInputs = (incomingEdges: EconEdgeData[], incomingValues: number[]) => {
+  const { totals, counts } = splitPortInputs(incomingEdges, incomingValues, BINARY_PORT_IDS);
+  return {
+    left: totals[0],
+    right: totals[1],
+    leftCount: counts[0],
+    rightCount: counts[1],
+  };
+};
+
+// Summed flows pick up float error (0.1 + 0.2), so equality uses a tolerance scaled to the operands.
+const nearlyEqual = (a: number, b: number) => Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+
+const compareValues = (value: number, comparison: ComparisonOperator, threshold: number) => {
+  switch (comparison) {
+    case 'gt':
+      return value > threshold;
+    case 'gte':
+      return value >= threshold;
+    case 'lt':
+      return value < threshold;
+    case 'lte':
+      return value <= threshold;
+    case 'eq':
+      return nearlyEqual(value, threshold);
+    case 'neq':
+      return !nearlyEqual(value, threshold);
+    default:
+      return false;
   }
+};
 
-  while (operators.length > 0) {
-    const op = operators.pop()!;
-    if (op.type === 'lparen' || op.type === 'rparen') {
-      throw new Error('Mismatched parentheses');
-    }
-    if (op.type === 'operator') {
-      output.push({ type: 'operator', value: op.value });
-    } else {
-      output.push({ type: 'identifier', value: op.value });
-    }
+const pickConditionValue = (node: EconNodeData, split: { totals: number[]; counts: number[] }) => {
+  if (split.counts[0] === 0) {
+    throw new Error('Missing condition input');
   }
+  const thenValue = split.counts[1] > 0 ? split.totals[1] : node.thenValue ?? 0;
+  const elseValue = split.counts[2] > 0 ? split.totals[2] : node.elseValue ?? 0;
+  return compareValues(split.totals[0], node.comparison ?? 'gte', node.threshold ?? 0) ? thenValue : elseValue;
+};
 
-  return output;
+const computeConditionSeries = (
+  node: EconNodeData,
+  incomingEdges: EconEdgeData[],
+  incomingSeries: number[][],
+  months: number,
+) => {
+  const portSeries = CONDITION_PORT_IDS.map((): number[] => []);
+  let counts = CONDITION_PORT_IDS.map(() => 0);
+  const series = buildSeries(months, (month) => {
+    const split = splitPortInputs(incomingEdges, valuesAtMonth(incomingSeries, month), CONDITION_PORT_IDS);
+    counts = split.counts;
+    split.totals.forEach((value, index) => portSeries[index].push(value));
+    return pickConditionValue(node, split);
+  });
+  return {
+    series,
+    inputs: portSeries.map((values) => summarizeFlow(values)),
+    connected: counts.map((count) => count > 0),
+  };
 };
 
-const evaluateRpn = (tokens: RpnToken[], variables: Record<string, number>) => {
-  const stack: number[] = [];
-  for (const token of tokens) {
-    if (token.type === 'number') {
-      stack.push(token.value);
-      continue;
-    }
-    if (token.type === 'identifier') {
-      if (!(token.value in variables)) {
-        throw new Error(`Unknown variable: ${token.value}`);
+type BinaryOperation = {
+  fallback: { left: number; right: number };
+  operate: (left: number, right: number) => number;
+};
+
+const BINARY_OPERATIONS: Record<'add' | 'subtract' | 'multiply' | 'divide', BinaryOperation> = {
+  add: { fallback: { left: 0, right: 0 }, operate: (left, right) => left + right },
+  subtract: { fallback: { left: 0, right: 0 }, operate: (left, right) => left - right },
+  multiply: { fallback: { left: 1, right: 1 }, operate: (left, right) => left * right },
+  divide: {
+    fallback: { left: 1, right: 1 },
+    operate: (left, right) => {
+      if (right === 0) {
+        throw new Error('Division by zero');
       }
-      stack.push(variables[token.value]);
-      continue;
+      return left / right;
+    },
+  },
+};
+
+const applyBinaryOperation = (
+  node: EconNodeData,
+  split: ReturnType<typeof splitBinaryInputs>,
+  { fallback, operate }: BinaryOperation,
+) => {
+  const defaults = getDefaultPair(node, fallback);
+  return operate(split.leftCount > 0 ? split.left : defaults.left, split.rightCount > 0 ? split.right : defaults.right);
+};
+
+const computeBinarySeries = (
+  node: EconNodeData,
+  incomingEdges: EconEdgeData[],
+  incomingSeries: number[][],
+  months: number,
+  operation: BinaryOperation,
+) => {
+  const leftSeries: number[] = [];
+  const rightSeries: number[] = [];
+  let leftCount = 0;
+  let rightCount = 0;
+  const series = buildSeries(months, (month) => {
+    const split = splitBinaryInputs(incomingEdges, valuesAtMonth(incomingSeries, month));
+    leftCount = split.leftCount;
+    rightCount = split.rightCount;
+    leftSeries.push(split.left);
+    rightSeries.push(split.right);
+    return applyBinaryOperation(node, split, operation);
+  });
+  return {
+    series,
+    left: summarizeFlow(leftSeries),
+    right: summarizeFlow(rightSeries),
+    leftCount,
+    rightCount,
+  };
+};
+
+const computeEventSeries = (events: ScheduledEvent[], months: number) => {
+  const series = constantSeries(months, 0);
+  events.forEach((event) => {
+    const first = Math.round(event.month);
+    if (!Number.isFinite(first) || first < 1) {
+      throw new Error(`Event ${event.label || event.id} needs a first month of 1 or later`);
     }
-    if (token.type === 'operator') {
-      const op = OPERATORS[token.value];
-      if (stack.length < op.args) {
-        throw new Error('Invalid expression');
-      }
-      if (token.value === 'u-') {
-        const value = stack.pop()!;
-        stack.push(-value);
-        continue;
-      }
-      const right = stack.pop()!;
-      const left = stack.pop()!;
-      switch (token.value) {
-        case '+':
-          stack.push(left + right);
-          break;
-        case '-':
-          stack.push(left - right);
-          break;
-        case '*':
-          stack.push(left * right);
-          break;
-        case '/':
-          stack.push(left / right);
-          break;
-        default:
-          break;
-      }
+    const interval = event.repeatEveryMonths !== undefined ? Math.round(event.repeatEveryMonths) : 0;
+    const last = Math.min(months, event.endMonth ?? months);
+    for (let month = first; month <= last; month += interval > 0 ? interval : months + 1) {
+      series[month - 1] += event.amount;
+    }
+  });
+  return series;
+};
+
+const computeLoanSchedule = (node: EconNodeData, months: number): LoanSchedule => {
+  const principal = node.principal ?? 0;
+  const termMonths = Math.round(node.termMonths ?? 0);
+  if (termMonths < 1) {
+    throw new Error('Loan term must be at least one month');
+  }
+  const monthlyRate = (node.interestRateAnnual ?? 0) / 12;
+  const basePayment =
+    monthlyRate === 0 ? principal / termMonths : (principal * monthlyRate) / (1 - (1 + monthlyRate) ** -termMonths);
+  const scheduledPayment = basePayment + Math.max(0, node.extraPayment ?? 0);
+  const schedule: LoanSchedule = {
+    payment: [],
+    interest: [],
+    principal: [],
+    balance: [],
+    scheduledPayment,
+    payoffMonth: principal > 0 ? -1 : 0,
+    totalInterest: 0,
+  };
+  let balance = principal;
+  for (let month = 0; month < months; month += 1) {
+    if (balance <= 1e-6) {
+      schedule.payment.push(0);
+      schedule.interest.push(0);
+      schedule.principal.push(0);
+      schedule.balance.push(0);
       continue;
     }
-    if (token.type === 'function') {
-      if (!FUNCTIONS.has(token.value)) {
-        throw new Error(`Unsupported function: ${token.value}`);
-      }
-      if (stack.length < token.argCount) {
-        throw new Error('Invalid function usage');
-      }
-      const args = stack.splice(stack.length - token.argCount, token.argCount);
-      if (args.length === 0) {
-        throw new Error('Functions require at least one argument');
-      }
-      switch (token.value) {
-        case 'sum':
-          stack.push(args.reduce((total, val) => total + val, 0));
-          break;
-        case 'min':
-          stack.push(Math.min(...args));
-          break;
-        case 'max':
-          stack.push(Math.max(...args));
-          break;
-        default:
-          break;
-      }
+    const interest = balance * monthlyRate;
+    const payment = Math.min(scheduledPayment, balance + interest);
+    balance = Math.max(0, balance + interest - payment);
+    schedule.payment.push(payment);
+    schedule.interest.push(interest);
+    schedule.principal.push(payment - interest);
+    schedule.balance.push(balance);
+    schedule.totalInterest += interest;
+    if (balance <= 1e-6 && schedule.payoffMonth === -1) {
+      schedule.payoffMonth = month + 1;
     }
   }
-  if (stack.length !== 1) {
-    throw new Error('Invalid expression');
-  }
-  return stack[0];
+  return schedule;
 };
 
-const evaluateFormula = (formula: string, variables: Record<string, number>) => {
-  const tokens = tokenize(formula);
-  const rpn = toRpn(tokens);
-  return evaluateRpn(rpn, variables);
+const computeAnnualTax = (annualIncome: number, brackets: TaxBracket[], standardDeduction: number) => {
+  const taxable = Math.max(0, annualIncome - standardDeduction);
+  const sorted = [...brackets].sort((a, b) => a.threshold - b.threshold);
+  return sorted.reduce((total, bracket, index) => {
+    const upper = sorted[index + 1]?.threshold ?? Infinity;
+    const portion = Math.min(taxable, upper) - bracket.threshold;
+    return portion > 0 ? total + portion * bracket.rate : total;
+  }, 0);
 };
 
-const normalizeMathPort = (port?: string) => {
-  if (port === 'left') {
-    return '1';
+const getTaxBrackets = (node: EconNodeData) => {
+  const brackets = node.taxBrackets ?? [];
+  if (brackets.length === 0) {
+    throw new Error('Missing tax brackets');
   }
-  if (port === 'right') {
-    return '2';
+  if (brackets.some((bracket) => bracket.rate < 0 || bracket.rate > 1)) {
+    throw new Error('Tax rates must be between 0 and 1');
   }
-  return port;
+  return brackets;
 };
 
-const splitBinaryInputs = (incomingEdges: EconEdgeData[], incomingValues: number[]) => {
-  const leftValues: number[] = [];
-  const rightValues: number[] = [];
-  const unassigned: number[] = [];
+const computeMonthlyTax = (monthly: number, brackets: TaxBracket[], node: EconNodeData) =>
+  computeAnnualTax(monthly * 12, brackets, node.standardDeduction ?? 0) / 12;
 
-  incomingEdges.forEach((edge, index) => {
-    const value = incomingValues[index] ?? 0;
-    const port = normalizeMathPort(edge.targetPort);
-    if (port === '1') {
-      leftValues.push(value);
-      return;
-    }
-    if (port === '2') {
-      rightValues.push(value);
-      return;
-    }
-    unassigned.push(value);
-  });
+const getEdgeLag = (edge: EconEdgeData, extraLag = 0) => Math.max(0, Math.round(edge.lagMonths ?? 0)) + extraLag;
 
-  if (leftValues.length === 0 && rightValues.length === 0) {
-    if (unassigned.length > 0) {
-      leftValues.push(unassigned[0]);
-      rightValues.push(...unassigned.slice(1));
-    }
-  } else if (leftValues.length === 0) {
-    leftValues.push(...unassigned);
-  } else if (rightValues.length === 0) {
-    rightValues.push(...unassigned);
-  } else if (unassigned.length > 0) {
-    rightValues.push(...unassigned);
+const applyEdgeTransform = (series: number[], edge: EconEdgeData, months: number, extraLag = 0) => {
+  const weight = edge.weight ?? 1;
+  const lag = getEdgeLag(edge, extraLag);
+  if (weight === 1 && lag === 0) {
+    return series;
   }
-
-  return {
-    left: sumValues(leftValues),
-    right: sumValues(rightValues),
-    leftCount: leftValues.length,
-    rightCount: rightValues.length,
-  };
+  return buildSeries(months, (month) => (month < lag ? 0 : (series[month - lag] ?? 0) * weight));
 };
 
 const getDefaultPortId = (ports: { id: string }[] | undefined) => ports?.[0]?.id;
 
-const buildIncomingMap = (edges: EconEdgeData[]) => {
-  const incoming = new Map<string, EconEdgeData[]>();
-  for (const edge of edges) {
-    const list = incoming.get(edge.target) ?? [];
-    list.push(edge);
-    incoming.set(edge.target, list);
+const getOutputPorts = (node: EconNodeData) => {
+  if (node.kind === 'custom') {
+    return node.custom?.outputs;
   }
-  return incoming;
+  if (node.kind === 'tax') {
+    return TAX_OUTPUT_PORTS;
+  }
+  return undefined;
 };
 
-export const computeGraph = (nodes: EconNodeData[], edges: EconEdgeData[]): GraphComputeResult => {
-  const nodeMap = new Map(nodes.map((node) => [node.id, { ...node }]));
-  const errors: Record<string, string> = {};
-  const customOutputs = new Map<string, Map<string, number>>();
+const summarizePorts = (outputs: Map<string, number[]>) =>
+  Object.fromEntries(Array.from(outputs.entries()).map(([portId, series]) => [portId, summarizeFlow(series)]));
 
-  const inDegree = new Map<string, number>();
+const buildAdjacency = (nodeIds: Set<string>, edges: Iterable<EconEdgeData>) => {
+  const incoming = new Map<string, EconEdgeData[]>();
   const outgoing = new Map<string, string[]>();
-
-  nodes.forEach((node) => {
-    inDegree.set(node.id, 0);
-    outgoing.set(node.id, []);
+  nodeIds.forEach((id) => {
+    incoming.set(id, []);
+    outgoing.set(id, []);
   });
+  for (const edge of edges) {
+    if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) {
+      continue;
+    }
+    incoming.get(edge.target)!.push(edge);
+    outgoing.get(edge.source)!.push(edge.target);
+  }
+  return { incoming, outgoing };
+};
 
-  edges.forEach((edge) => {
-    if (!inDegree.has(edge.source) || !inDegree.has(edge.target)) {
+const findStronglyConnectedComponents = (nodeIds: string[], successors: (nodeId: string) => string[]) => {
+  const indexOf = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+
+  const open = (nodeId: string) => {
+    indexOf.set(nodeId, indexOf.size);
+    lowLink.set(nodeId, indexOf.get(nodeId)!);
+    stack.push(nodeId);
+    onStack.add(nodeId);
+    return { nodeId, targets: successors(nodeId), next: 0 };
+  };
+
+  nodeIds.forEach((rootId) => {
+    if (indexOf.has(rootId)) {
       return;
     }
-    inDegree.set(edge.target, (inDegree.get(edge.target) ?? 0) + 1);
-    outgoing.get(edge.source)?.push(edge.target);
+    const frames = [open(rootId)];
+    while (frames.length > 0) {
+      const frame = frames[frames.length - 1];
+      if (frame.next < frame.targets.length) {
+        const target = frame.targets[frame.next];
+        frame.next += 1;
+        if (!indexOf.has(target)) {
+          frames.push(open(target));
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.nodeId, Math.min(lowLink.get(frame.nodeId)!, indexOf.get(target)!));
+        }
+        continue;
+      }
+      frames.pop();
+      const parent = frames[frames.length - 1];
+      if (parent) {
+        lowLink.set(parent.nodeId, Math.min(lowLink.get(parent.nodeId)!, lowLink.get(frame.nodeId)!));
+      }
+      if (lowLink.get(frame.nodeId) === indexOf.get(frame.nodeId)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.nodeId);
+        components.push(component);
+      }
+    }
   });
 
-  const queue: string[] = [];
-  inDegree.forEach((value, key) => {
-    if (value === 0) {
-      queue.push(key);
+  return components.reverse();
+};
+
+const isLaggedEdge = (edge: EconEdgeData) => Math.round(edge.lagMonths ?? 0) >= 1;
+
+type EvaluationStep = {
+  nodeIds: string[];
+  feedback: boolean;
+};
+
+type MonthStep = (month: number, values: number[]) => void;
+
+type EvaluationPlan = {
+  steps: EvaluationStep[];
+  delayedEdgeIds: Set<string>;
+  cycles: GraphCycle[];
+};
+
+const planEvaluation = (
+  nodes: Map<string, EconNodeData>,
+  incoming: Map<string, EconEdgeData[]>,
+  outgoing: Map<string, string[]>,
+): EvaluationPlan => {
+  const delayedEdgeIds = new Set<string>();
+  const cycles: GraphCycle[] = [];
+  const components = findStronglyConnectedComponents(Array.from(nodes.keys()), (nodeId) => outgoing.get(nodeId) ?? []);
+
+  const steps = components.map((component): EvaluationStep => {
+    const members = new Set(component);
+    const internalEdges = component
+      .flatMap((nodeId) => incoming.get(nodeId) ?? [])
+      .filter((edge) => members.has(edge.source));
+    if (internalEdges.length === 0) {
+      return { nodeIds: component, feedback: false };
     }
-  });
 
-  const order: string[] = [];
-  while (queue.length > 0) {
-    const id = queue.shift()!;
-    order.push(id);
-    const targets = outgoing.get(id) ?? [];
-    for (const target of targets) {
-      const nextValue = (inDegree.get(target) ?? 0) - 1;
-      inDegree.set(target, nextValue);
-      if (nextValue === 0) {
-        queue.push(target);
+    const instantEdges = internalEdges.filter((edge) => {
+      if (isLaggedEdge(edge)) {
+        return false;
       }
-    }
-  }
+      if (nodes.get(edge.source)?.kind === 'asset') {
+        delayedEdgeIds.add(edge.id);
+        return false;
+      }
+      return true;
+    });
+    const instantTargets = new Map<string, string[]>();
+    instantEdges.forEach((edge) => {
+      instantTargets.set(edge.source, [...(instantTargets.get(edge.source) ?? []), edge.target]);
+    });
 
-  if (order.length !== nodes.length) {
-    nodes.forEach((node) => {
-      errors[node.id] = 'Cycle detected in graph';
+    const groups = findStronglyConnectedComponents(component, (nodeId) => instantTargets.get(nodeId) ?? []);
+    groups.forEach((group) => {
+      const groupIds = new Set(group);
+      const edgeIds = instantEdges
+        .filter((edge) => groupIds.has(edge.source) && groupIds.has(edge.target))
+        .map((edge) => edge.id);
+      if (edgeIds.length > 0) {
+        cycles.push({ nodeIds: group, edgeIds });
+      }
     });
-    return { nodes: Array.from(nodeMap.values()), errors };
-  }
+    return { nodeIds: groups.flat(), feedback: true };
+  });
+
+  return { steps, delayedEdgeIds, cycles };
+};
+
+const clearResults = (node: EconNodeData) => {
+  node.computedValue = undefined;
+  node.timeseries = undefined;
+  node.loanSchedule = undefined;
+  node.outputValues = undefined;
+};
+
+// Everything the engine or the Monte Carlo pass writes back onto a node; none of it is user input.
+export const stripComputedFields = (node: EconNodeData): EconNodeData => {
+  const {
+    computedValue,
+    timeseries,
+    loanSchedule,
+    outputValues,
+    input1Value,
+    input2Value,
+    input3Value,
+    input1Connected,
+    input2Connected,
+    input3Connected,
+    monteCarlo,
+    ...data
+  } = node;
+  return data;
+};
+
+export const resolveMonths = (months: number | undefined) =>
+  months !== undefined && Number.isFinite(months) && months >= 1 ? Math.floor(months) : DEFAULT_HORIZON_MONTHS;
 
-  const incomingMap = buildIncomingMap(edges);
-  const getEdgeValue = (edge: EconEdgeData) => {
-    const sourceNode = nodeMap.get(edge.source);
+export type GraphEngine = {
+  load: (nodes: EconNodeData[], edges: EconEdgeData[]) => void;
+  setMonths: (months: number | undefined) => void;
+  updateNode: (node: EconNodeData) => void;
+  removeNode: (nodeId: string) => void;
+  updateEdge: (edge: EconEdgeData) => void;
+  removeEdge: (edgeId: string) => void;
+  compute: () => GraphComputeResult;
+  getResult: () => GraphComputeResult;
+};
+
+const buildGraphEngine = (initialMonths: number, injectedSeries: Map<string, number[]>): GraphEngine => {
+  let months = initialMonths;
+  const sourceNodes = new Map<string, EconNodeData>();
+  const sourceEdges = new Map<string, EconEdgeData>();
+  const computedNodes = new Map<string, EconNodeData>();
+  const portOutputs = new Map<string, Map<string, number[]>>();
+  const compiledFormulas = new Map<string, { formula: string; rpn: RpnToken[] }>();
+  const dirty = new Set<string>();
+  let errors: Record<string, string> = {};
+  let incomingMap = new Map<string, EconEdgeData[]>();
+  let outgoingMap = new Map<string, string[]>();
+  let plan: EvaluationPlan | null = null;
+  let structureChanged = true;
+
+  const markAllDirty = () => {
+    sourceNodes.forEach((_, id) => dirty.add(id));
+  };
+
+  const getCompiledFormula = (nodeId: string, formula: string) => {
+    const cached = compiledFormulas.get(nodeId);
+    if (cached && cached.formula === formula) {
+      return cached.rpn;
+    }
+    const rpn = compileFormula(formula);
+    compiledFormulas.set(nodeId, { formula, rpn });
+    return rpn;
+  };
+
+  const getSourceSeries = (edge: EconEdgeData): number[] => {
+    const sourceNode = computedNodes.get(edge.source);
     if (!sourceNode) {
-      return 0;
+      return constantSeries(months, 0);
     }
-    if (sourceNode.kind === 'custom') {
-      const portId = edge.sourcePort ?? getDefaultPortId(sourceNode.custom?.outputs);
+    const outputPorts = getOutputPorts(sourceNode);
+    if (outputPorts) {
+      const portId = edge.sourcePort ?? getDefaultPortId(outputPorts);
       if (!portId) {
-        return 0;
+        return constantSeries(months, 0);
       }
-      const outputs = customOutputs.get(sourceNode.id);
-      return outputs?.get(portId) ?? 0;
+      const outputs = portOutputs.get(sourceNode.id);
+      return outputs?.get(portId) ?? constantSeries(months, 0);
     }
-    return sourceNode.computedValue ?? 0;
+    return sourceNode.timeseries ?? constantSeries(months, 0);
   };
+  const getEdgeDelay = (edge: EconEdgeData) => (plan?.delayedEdgeIds.has(edge.id) ? 1 : 0);
+  const getEdgeSeries = (edge: EconEdgeData) =>
+    applyEdgeTransform(getSourceSeries(edge), edge, months, getEdgeDelay(edge));
 
-  for (const nodeId of order) {
-    const node = nodeMap.get(nodeId);
-    if (!node) {
-      continue;
+  const rebuildStructure = () => {
+    const adjacency = buildAdjacency(new Set(sourceNodes.keys()), sourceEdges.values());
+    incomingMap = adjacency.incoming;
+    outgoingMap = adjacency.outgoing;
+    if (!plan) {
+      markAllDirty();
+    }
+    plan?.cycles.forEach((cycle) => cycle.nodeIds.forEach((nodeId) => dirty.add(nodeId)));
+    plan = planEvaluation(sourceNodes, incomingMap, outgoingMap);
+    structureChanged = false;
+  };
+
+  const collectDownstream = () => {
+    const affected = new Set(dirty);
+    const stack = Array.from(dirty);
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      for (const target of outgoingMap.get(id) ?? []) {
+        if (!affected.has(target)) {
+          affected.add(target);
+          stack.push(target);
+        }
+      }
+    }
+    return affected;
+  };
+
+  const evaluateNode = (nodeId: string) => {
+    const source = sourceNodes.get(nodeId);
+    if (!source) {
+      return;
     }
+    const node = { ...source };
+    // Inputs are read before the cache entry is replaced, so a lagged self-loop sees its previous series.
     const incomingEdges = incomingMap.get(nodeId) ?? [];
-    const incomingValues = incomingEdges.map((edge) => getEdgeValue(edge));
+    const incomingSeries = incomingEdges.map((edge) => getEdgeSeries(edge));
+    computedNodes.set(nodeId, node);
+    portOutputs.delete(nodeId);
+    delete errors[nodeId];
     const incomingIds = incomingEdges.map((edge) => edge.source);
+    const injected = injectedSeries.get(nodeId);
 
     try {
+      if (injected) {
+        node.timeseries = [...injected];
+        node.computedValue = summarizeFlow(injected);
+        return;
+      }
       switch (node.kind) {
         case 'income':
         case 'expense':
-          node.computedValue = normalizeMonthlyValue(node.baseValue, node.timeUnit);
+          if (node.startMonth !== undefined && node.endMonth !== undefined && node.endMonth < node.startMonth) {
+            throw new Error('End month is before start month');
+          }
+          node.timeseries = computeFlowSeries(node, months);
+          node.computedValue = summarizeFlow(node.timeseries);
           break;
         case 'value':
-          if (incomingValues.length > 0) {
-            node.computedValue = sumValues(incomingValues);
+          if (incomingSeries.length > 0) {
+            node.timeseries = sumSeries(incomingSeries, months);
           } else {
-            node.computedValue = node.baseValue ?? 0;
+            node.timeseries = constantSeries(months, node.baseValue ?? 0);
           }
+          node.computedValue = summarizeFlow(node.timeseries);
           break;
         case 'add':
           {
-            const { left, right, leftCount, rightCount } = splitBinaryInputs(incomingEdges, incomingValues);
-            const defaults = getDefaultPair(node, { left: 0, right: 0 });
-            const leftValue = leftCount > 0 ? left : defaults.left;
-            const rightValue = rightCount > 0 ? right : defaults.right;
+            const { series, left, right, leftCount, rightCount } = computeBinarySeries(
+              node,
+              incomingEdges,
+              incomingSeries,
+              months,
+              BINARY_OPERATIONS.add,
+            );
             node.input1Value = left;
             node.input2Value = right;
             node.input1Connected = leftCount > 0;
             node.input2Connected = rightCount > 0;
-            node.computedValue = leftValue + rightValue;
+            node.timeseries = series;
+            node.computedValue = summarizeFlow(series);
           }
           break;
         case 'subtract': {
-          if (incomingValues.length === 0) {
-            const { left, right } = getDefaultPair(node, { left: 0, right: 0 });
-            node.input1Value = undefined;
-            node.input2Value = undefined;
-            node.input1Connected = false;
-            node.input2Connected = false;
-            node.computedValue = left - right;
-            break;
-          }
-          const { left, right, leftCount, rightCount } = splitBinaryInputs(incomingEdges, incomingValues);
-          const defaults = getDefaultPair(node, { left: 0, right: 0 });
-          const leftValue = leftCount > 0 ? left : defaults.left;
-          const rightValue = rightCount > 0 ? right : defaults.right;
-          node.input1Value = left;
-          node.input2Value = right;
+          const { series, left, right, leftCount, rightCount } = computeBinarySeries(
+            node,
+            incomingEdges,
+            incomingSeries,
+            months,
+            BINARY_OPERATIONS.subtract,
+          );
+          const hasInputs = incomingSeries.length > 0;
+          node.input1Value = hasInputs ? left : undefined;
+          node.input2Value = hasInputs ? right : undefined;
           node.input1Connected = leftCount > 0;
           node.input2Connected = rightCount > 0;
-          node.computedValue = leftValue - rightValue;
+          node.timeseries = series;
+          node.computedValue = summarizeFlow(series);
           break;
         }
         case 'multiply':
           {
-            const { left, right, leftCount, rightCount } = splitBinaryInputs(incomingEdges, incomingValues);
-            const defaults = getDefaultPair(node, { left: 1, right: 1 });
-            const leftValue = leftCount > 0 ? left : defaults.left;
-            const rightValue = rightCount > 0 ? right : defaults.right;
+            const { series, left, right, leftCount, rightCount } = computeBinarySeries(
+              node,
+              incomingEdges,
+              incomingSeries,
+              months,
+              BINARY_OPERATIONS.multiply,
+            );
             node.input1Value = left;
             node.input2Value = right;
             node.input1Connected = leftCount > 0;
             node.input2Connected = rightCount > 0;
-            node.computedValue = leftValue * rightValue;
+            node.timeseries = series;
+            node.computedValue = summarizeFlow(series);
           }
           break;
         case 'divide': {
-          if (incomingValues.length === 0) {
-            const { left, right } = getDefaultPair(node, { left: 1, right: 1 });
-            node.input1Value = undefined;
-            node.input2Value = undefined;
-            node.input1Connected = false;
-            node.input2Connected = false;
-            if (right === 0) {
-              throw new Error('Division by zero');
-            }
-            node.computedValue = left / right;
-            break;
-          }
-          const { left, right, leftCount, rightCount } = splitBinaryInputs(incomingEdges, incomingValues);
-          const defaults = getDefaultPair(node, { left: 1, right: 1 });
-          const leftValue = leftCount > 0 ? left : defaults.left;
-          const rightValue = rightCount > 0 ? right : defaults.right;
-          node.input1Value = left;
-          node.input2Value = right;
+          const { series, left, right, leftCount, rightCount } = computeBinarySeries(
+            node,
+            incomingEdges,
+            incomingSeries,
+            months,
+            BINARY_OPERATIONS.divide,
+          );
+          const hasInputs = incomingSeries.length > 0;
+          node.input1Value = hasInputs ? left : undefined;
+          node.input2Value = hasInputs ? right : undefined;
           node.input1Connected = leftCount > 0;
           node.input2Connected = rightCount > 0;
-          if (rightValue === 0) {
-            throw new Error('Division by zero');
-          }
-          node.computedValue = leftValue / rightValue;
+          node.timeseries = series;
+          node.computedValue = summarizeFlow(series);
           break;
         }
         case 'calc': {
           if (!node.formula) {
             throw new Error('Missing formula');
           }
-          const variables: Record<string, number> = {};
-          incomingIds.forEach((id, index) => {
-            const value = incomingValues[index] ?? 0;
-            variables[id] = (variables[id] ?? 0) + value;
+          const rpn = getCompiledFormula(node.id, node.formula);
+          node.timeseries = buildSeries(months, (month) => {
+            const variables: Record<string, number> = {};
+            incomingIds.forEach((id, index) => {
+              const value = incomingSeries[index]?.[month] ?? 0;
+              variables[id] = (variables[id] ?? 0) + value;
+            });
+            return evaluateRpn(rpn, variables);
           });
-          node.computedValue = evaluateFormula(node.formula, variables);
+          node.computedValue = summarizeFlow(node.timeseries);
           break;
         }
         case 'asset': {
-          const contribution = incomingValues.reduce((sum, val) => sum + val, 0);
+          const contributions = sumSeries(incomingSeries, months);
           const rate = node.interestRateAnnual ?? 0;
           const monthlyRate = rate / 12;
-          const months = 120;
           const timeseries: number[] = [];
           let balance = 0;
           for (let i = 0; i < months; i += 1) {
-            balance = balance * (1 + monthlyRate) + contribution;
+            balance = balance * (1 + monthlyRate) + contributions[i];
             timeseries.push(balance);
           }
           node.timeseries = timeseries;
           node.computedValue = balance;
           break;
         }
+        case 'loan': {
+          const schedule = computeLoanSchedule(node, months);
+          node.loanSchedule = schedule;
+          node.timeseries = schedule.payment;
+          node.computedValue = schedule.scheduledPayment;
+          break;
+        }
+        case 'condition': {
+          const { series, inputs, connected } = computeConditionSeries(node, incomingEdges, incomingSeries, months);
+          node.input1Value = inputs[0];
+          node.input2Value = inputs[1];
+          node.input3Value = inputs[2];
+          node.input1Connected = connected[0];
+          node.input2Connected = connected[1];
+          node.input3Connected = connected[2];
+          node.timeseries = series;
+          node.computedValue = summarizeFlow(series);
+          break;
+        }
+        case 'event':
+          node.timeseries = computeEventSeries(node.events ?? [], months);
+          node.computedValue = summarizeFlow(node.timeseries);
+          break;
+        case 'tax': {
+          const brackets = getTaxBrackets(node);
+          const gross = sumSeries(incomingSeries, months);
+          const taxOwed = gross.map((monthly) => computeMonthlyTax(monthly, brackets, node));
+          const net = gross.map((monthly, index) => monthly - taxOwed[index]);
+          const outputSeries = new Map([
+            [TAX_NET_PORT_ID, net],
+            [TAX_OWED_PORT_ID, taxOwed],
+          ]);
+          node.timeseries = net;
+          node.computedValue = summarizeFlow(net);
+          node.outputValues = summarizePorts(outputSeries);
+          portOutputs.set(node.id, outputSeries);
+          break;
+        }
         case 'output': {
           if (node.targetAmount === undefined) {
             throw new Error('Missing target amount');
           }
-          const sourceAssets = incomingIds
-            .map((id) => nodeMap.get(id))
-            .filter((item): item is EconNodeData => Boolean(item));
-          const combinedSeries = sourceAssets.reduce<number[]>((acc, asset) => {
-            if (!asset.timeseries) {
-              return acc;
-            }
-            if (acc.length === 0) {
-              return [...asset.timeseries];
-            }
-            return acc.map((value, index) => value + (asset.timeseries?.[index] ?? 0));
-          }, []);
-          const series = combinedSeries.length > 0 ? combinedSeries : undefined;
-          if (!series) {
+          if (!incomingIds.some((id) => computedNodes.get(id)?.timeseries)) {
             throw new Error('Missing asset timeseries');
           }
+          const series = sumSeries(incomingSeries, months);
           const monthIndex = series.findIndex((value) => value >= node.targetAmount!);
+          node.timeseries = series;
           node.computedValue = monthIndex === -1 ? -1 : monthIndex + 1;
           break;
         }
@@ -549,7 +781,7 @@ export const computeGraph = (nodes: EconNodeData[], edges: EconEdgeData[]): Grap
           const inputPortIds = new Set(customConfig.inputs.map((port) => port.id));
           const defaultInputPortId = getDefaultPortId(customConfig.inputs);
           const defaultOutputPortId = getDefaultPortId(customConfig.outputs);
-          const inputTotals = new Map<string, number>();
+          const inputSeries = new Map<string, number[][]>();
           const bindingErrors: string[] = [];
 
           if (customConfig.inputs.length === 0) {
@@ -568,13 +800,15 @@ export const computeGraph = (nodes: EconNodeData[], edges: EconEdgeData[]): Grap
               bindingErrors.push(`Unknown input port ${requestedPort}`);
               return;
             }
-            const value = incomingValues[index] ?? 0;
-            inputTotals.set(requestedPort, (inputTotals.get(requestedPort) ?? 0) + value);
+            const list = inputSeries.get(requestedPort) ?? [];
+            list.push(incomingSeries[index]);
+            inputSeries.set(requestedPort, list);
           });
 
-          const internalNodes = customConfig.internalGraph.nodes.map((internal) => ({ ...internal }));
-          const internalEdges = customConfig.internalGraph.edges.map((internal) => ({ ...internal }));
+          const internalNodes = customConfig.internalGraph.nodes;
+          const internalEdges = customConfig.internalGraph.edges;
           const internalNodeMap = new Map(internalNodes.map((internal) => [internal.id, internal]));
+          const internalInjected = new Map<string, number[]>();
 
           customConfig.inputs.forEach((port) => {
             const boundId = customConfig.inputBindings[port.id];
@@ -591,59 +825,365 @@ export const computeGraph = (nodes: EconNodeData[], edges: EconEdgeData[]): Grap
               bindingErrors.push(`Input binding ${port.id} must target income or value`);
               return;
             }
-            const value = inputTotals.get(port.id) ?? 0;
-            targetNode.baseValue = value;
-            if (targetNode.kind === 'income') {
-              targetNode.timeUnit = 'per_month';
-            }
+            internalInjected.set(boundId, sumSeries(inputSeries.get(port.id) ?? [], months));
           });
 
-          const internalResult = computeGraph(internalNodes, internalEdges);
+          const internalEngine = buildGraphEngine(months, internalInjected);
+          internalEngine.load(internalNodes, internalEdges);
+          internalEngine.compute();
+          const internalResult = internalEngine.getResult();
           if (Object.keys(internalResult.errors).length > 0) {
             bindingErrors.push('Internal graph errors');
           }
 
-          const outputValues = new Map<string, number>();
+          const outputSeries = new Map<string, number[]>();
           customConfig.outputs.forEach((port) => {
             const boundId = customConfig.outputBindings[port.id];
             if (!boundId) {
               bindingErrors.push(`Missing output binding for ${port.id}`);
-              outputValues.set(port.id, 0);
+              outputSeries.set(port.id, constantSeries(months, 0));
               return;
             }
             const sourceNode = internalResult.nodes.find((item) => item.id === boundId);
             if (!sourceNode) {
               bindingErrors.push(`Invalid output binding for ${port.id}`);
-              outputValues.set(port.id, 0);
+              outputSeries.set(port.id, constantSeries(months, 0));
               return;
             }
-            outputValues.set(port.id, sourceNode.computedValue ?? 0);
+            outputSeries.set(port.id, sourceNode.timeseries ?? constantSeries(months, 0));
           });
 
           if (!defaultOutputPortId) {
-            node.computedValue = 0;
+            node.timeseries = constantSeries(months, 0);
           } else if (customConfig.outputs.length === 1) {
-            node.computedValue = outputValues.get(defaultOutputPortId) ?? 0;
+            node.timeseries = outputSeries.get(defaultOutputPortId) ?? constantSeries(months, 0);
           } else {
-            node.computedValue = customConfig.outputs.reduce((sum, port) => sum + (outputValues.get(port.id) ?? 0), 0);
+            node.timeseries = sumSeries(Array.from(outputSeries.values()), months);
           }
+          node.computedValue = summarizeFlow(node.timeseries);
+          node.outputValues = summarizePorts(outputSeries);
 
           if (bindingErrors.length > 0) {
             errors[node.id] = bindingErrors.join('; ');
           }
-          customOutputs.set(node.id, outputValues);
+          portOutputs.set(node.id, outputSeries);
           break;
         }
         default:
           break;
       }
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Calculation error';
+      const message =
+        error instanceof FormulaError
+          ? `${error.message} (col ${error.start + 1})`
+          : error instanceof Error
+            ? error.message
+            : 'Calculation error';
       errors[node.id] = message;
-      node.computedValue = undefined;
-      node.timeseries = undefined;
+      clearResults(node);
     }
-  }
+  };
+
+  const rejectCycle = (cycle: GraphCycle) => {
+    const message = describeCycle(cycle);
+    cycle.nodeIds.forEach((nodeId) => {
+      const node = { ...sourceNodes.get(nodeId)! };
+      clearResults(node);
+      computedNodes.set(nodeId, node);
+      portOutputs.delete(nodeId);
+      errors[nodeId] = message;
+    });
+  };
+
+  // The month-by-month form of evaluateNode for a loop member: writes one month of its series from that month's inputs.
+  const createMonthStep = (node: EconNodeData, series: number[], ports: Map<string, number[]>): MonthStep | null => {
+    const incomingEdges = incomingMap.get(node.id) ?? [];
+    const injected = injectedSeries.get(node.id);
+    if (injected) {
+      return (month) => {
+        series[month] = injected[month] ?? 0;
+      };
+    }
+    switch (node.kind) {
+      case 'income':
+      case 'expense':
+      case 'loan':
+      case 'event': {
+        const fixed =
+          node.kind === 'loan'
+            ? computeLoanSchedule(node, months).payment
+            : node.kind === 'event'
+              ? computeEventSeries(node.events ?? [], months)
+              : computeFlowSeries(node, months);
+        return (month) => {
+          series[month] = fixed[month];
+        };
+      }
+      case 'value':
+        return (month, values) => {
+          series[month] = values.length > 0 ? sumValues(values) : node.baseValue ?? 0;
+        };
+      case 'add':
+      case 'subtract':
+      case 'multiply':
+      case 'divide': {
+        const operation = BINARY_OPERATIONS[node.kind];
+        return (month, values) => {
+          series[month] = applyBinaryOperation(node, splitBinaryInputs(incomingEdges, values), operation);
+        };
+      }
+      case 'calc': {
+        if (!node.formula) {
+          return null;
+        }
+        const rpn = getCompiledFormula(node.id, node.formula);
+        return (month, values) => {
+          const variables: Record<string, number> = {};
+          incomingEdges.forEach((edge, index) => {
+            variables[edge.source] = (variables[edge.source] ?? 0) + values[index];
+          });
+          series[month] = evaluateRpn(rpn, variables);
+        };
+      }
+      case 'asset': {
+        const monthlyRate = (node.interestRateAnnual ?? 0) / 12;
+        let balance = 0;
+        return (month, values) => {
+          balance = balance * (1 + monthlyRate) + sumValues(values);
+          series[month] = balance;
+        };
+      }
+      case 'condition':
+        return (month, values) => {
+          series[month] = pickConditionValue(node, splitPortInputs(incomingEdges, values, CONDITION_PORT_IDS));
+        };
+      case 'tax': {
+        const brackets = getTaxBrackets(node);
+        const owed = ports.get(TAX_OWED_PORT_ID)!;
+        return (month, values) => {
+          const gross = sumValues(values);
+          owed[month] = computeMonthlyTax(gross, brackets, node);
+          series[month] = gross - owed[month];
+        };
+      }
+      case 'output':
+        return (month, values) => {
+          series[month] = sumValues(values);
+        };
+      default:
+        return null;
+    }
+  };
+
+  // Every loop is broken by a delay of at least a month, so walking the months in order and evaluating the members in
+  // component order only ever reads values that are already final. Afterwards each member is evaluated once in full
+  // to fill in its summaries and errors from those settled inputs.
+  const solveFeedbackLoop = (nodeIds: string[]) => {
+    const members = nodeIds.map((nodeId) => {
+      const node = sourceNodes.get(nodeId)!;
+      const series = constantSeries(months, 0);
+      const ports = new Map(
+        (getOutputPorts(node) ?? []).map((port) => [
+          port.id,
+          node.kind === 'tax' && port.id === TAX_NET_PORT_ID ? series : constantSeries(months, 0),
+        ]),
+      );
+      const install = () => {
+        computedNodes.set(nodeId, { ...node, timeseries: series });
+        if (ports.size > 0) {
+          portOutputs.set(nodeId, ports);
+        }
+      };
+      install();
+      return { node, series, ports, install };
+    });
+
+    const steps = members.map(({ node, series, ports, install }) => {
+      let step: MonthStep | null = null;
+      try {
+        step = createMonthStep(node, series, ports);
+      } catch {
+        step = null;
+      }
+      // Custom nodes (and members that can't be set up) are re-run in full each month and their month copied out.
+      const fallback: MonthStep = (month) => {
+        evaluateNode(node.id);
+        const fresh = computedNodes.get(node.id);
+        const freshPorts = portOutputs.get(node.id);
+        series[month] = fresh?.timeseries?.[month] ?? 0;
+        ports.forEach((values, portId) => {
+          values[month] = freshPorts?.get(portId)?.[month] ?? 0;
+        });
+        install();
+      };
+      return step ?? fallback;
+    });
+    const inputs = members.map(({ node }) =>
+      (incomingMap.get(node.id) ?? []).map((edge) => ({
+        series: getSourceSeries(edge),
+        lag: getEdgeLag(edge, getEdgeDelay(edge)),
+        weight: edge.weight ?? 1,
+      })),
+    );
+
+    let failure: { month: number; message: string } | null = null;
+    for (let month = 0; month < months && !failure; month += 1) {
+      try {
+        steps.forEach((step, index) =>
+          step(
+            month,
+            inputs[index].map(({ series, lag, weight }) => (month < lag ? 0 : (series[month - lag] ?? 0) * weight)),
+          ),
+        );
+      } catch (error) {
+        failure = { month, message: error instanceof Error ? error.message : 'Calculation error' };
+      }
+    }
+
+    nodeIds.forEach((nodeId) => evaluateNode(nodeId));
+    if (failure) {
+      const message = `Feedback loop stopped in month ${failure.month + 1}: ${failure.message}`;
+      nodeIds.filter((nodeId) => !errors[nodeId]).forEach((nodeId) => {
+        errors[nodeId] = message;
+      });
+    }
+  };
+
+  const describeCycle = (cycle: GraphCycle) => {
+    const labelOf = (nodeId: string) => sourceNodes.get(nodeId)?.label || nodeId;
+    const links = cycle.edgeIds
+      .map((edgeId) => sourceEdges.get(edgeId))
+      .filter((edge): edge is EconEdgeData => Boolean(edge))
+      .map((edge) => `${labelOf(edge.source)} → ${labelOf(edge.target)}`);
+    return `Cycle with no delay: ${links.join(', ')}`;
+  };
+
+  const load = (nodes: EconNodeData[], edges: EconEdgeData[]) => {
+    sourceNodes.clear();
+    sourceEdges.clear();
+    computedNodes.clear();
+    portOutputs.clear();
+    compiledFormulas.clear();
+    dirty.clear();
+    errors = {};
+    nodes.forEach((node) => sourceNodes.set(node.id, node));
+    edges.forEach((edge) => sourceEdges.set(edge.id, edge));
+    plan = null;
+    structureChanged = true;
+  };
+
+  const setMonths = (value: number | undefined) => {
+    const resolved = resolveMonths(value);
+    if (resolved !== months) {
+      months = resolved;
+      markAllDirty();
+    }
+  };
+
+  const updateNode = (node: EconNodeData) => {
+    if (sourceNodes.get(node.id)?.kind !== node.kind) {
+      structureChanged = true;
+    }
+    sourceNodes.set(node.id, node);
+    dirty.add(node.id);
+  };
+
+  const removeNode = (nodeId: string) => {
+    if (!sourceNodes.delete(nodeId)) {
+      return;
+    }
+    (outgoingMap.get(nodeId) ?? []).forEach((target) => dirty.add(target));
+    computedNodes.delete(nodeId);
+    portOutputs.delete(nodeId);
+    compiledFormulas.delete(nodeId);
+    dirty.delete(nodeId);
+    delete errors[nodeId];
+    structureChanged = true;
+  };
+
+  const updateEdge = (edge: EconEdgeData) => {
+    const previous = sourceEdges.get(edge.id);
+    if (
+      !previous ||
+      previous.source !== edge.source ||
+      previous.target !== edge.target ||
+      isLaggedEdge(previous) !== isLaggedEdge(edge)
+    ) {
+      structureChanged = true;
+    }
+    if (previous && sourceNodes.has(previous.target)) {
+      dirty.add(previous.target);
+    }
+    sourceEdges.set(edge.id, edge);
+    if (sourceNodes.has(edge.target)) {
+      dirty.add(edge.target);
+    }
+  };
+
+  const removeEdge = (edgeId: string) => {
+    const previous = sourceEdges.get(edgeId);
+    if (!previous) {
+      return;
+    }
+    sourceEdges.delete(edgeId);
+    if (sourceNodes.has(previous.target)) {
+      dirty.add(previous.target);
+    }
+    structureChanged = true;
+  };
+
+  const compute = (): GraphComputeResult => {
+    if (structureChanged) {
+      rebuildStructure();
+    }
+    const { steps, cycles, delayedEdgeIds } = plan!;
+    const blocked = new Set(cycles.flatMap((cycle) => cycle.nodeIds));
+    const affected = collectDownstream();
+    const evaluated: string[] = [];
+    steps.forEach((step) => {
+      if (!step.nodeIds.some((nodeId) => affected.has(nodeId))) {
+        return;
+      }
+      cycles
+        .filter((cycle) => step.nodeIds.includes(cycle.nodeIds[0]))
+        .forEach((cycle) => rejectCycle(cycle));
+      const runnable = step.nodeIds.filter((nodeId) => !blocked.has(nodeId));
+      if (step.feedback) {
+        solveFeedbackLoop(runnable);
+      } else {
+        runnable.forEach((nodeId) => evaluateNode(nodeId));
+      }
+      evaluated.push(...step.nodeIds);
+    });
+    dirty.clear();
+    return {
+      nodes: evaluated.map((id) => computedNodes.get(id)!),
+      errors: { ...errors },
+      cycles,
+      delayedEdgeIds: Array.from(delayedEdgeIds),
+    };
+  };
+
+  const getResult = (): GraphComputeResult => ({
+    nodes: Array.from(sourceNodes.keys()).map((id) => computedNodes.get(id) ?? { ...sourceNodes.get(id)! }),
+    errors: { ...errors },
+    cycles: plan?.cycles ?? [],
+    delayedEdgeIds: Array.from(plan?.delayedEdgeIds ?? []),
+  });
+
+  return { load, setMonths, updateNode, removeNode, updateEdge, removeEdge, compute, getResult };
+};
+
+export const createGraphEngine = (options: ComputeOptions = {}) =>
+  buildGraphEngine(resolveMonths(options.months), new Map());
 
-  return { nodes: Array.from(nodeMap.values()), errors };
+export const computeGraph = (
+  nodes: EconNodeData[],
+  edges: EconEdgeData[],
+  options: ComputeOptions = {},
+): GraphComputeResult => {
+  const engine = createGraphEngine(options);
+  engine.load(nodes, edges);
+  engine.compute();
+  return engine.getResult();
 };
@@ -0,0 +1,128 @@
+import type {
+  EconEdgeData,
+  EconNodeData,
+  GoalSeekResult,
+  GraphComputeResult,
+  MonteCarloResult,
+  MonteCarloSettings,
+  Scenario,
+  ScenarioComparison,
+  SensitivityResult,
+} from '../models/types';
+import type { ComputeOptions, GraphEngine } from './computeGraph';
+import { runGoalSeek, type GoalSeekOptions } from './goalSeek';
+import { runMonteCarlo } from './monteCarlo';
+import { compareScenarios } from './scenarios';
+import { runSensitivity, type SensitivityOptions } from './sensitivity';
+
+export type ComputeCommand =
+  | { type: 'load'; nodes: EconNodeData[]; edges: EconEdgeData[] }
+  | { type: 'setMonths'; months: number | undefined }
+  | { type: 'updateNode'; node: EconNodeData }
+  | { type: 'removeNode'; nodeId: string }
+  | { type: 'updateEdge'; edge: EconEdgeData }
+  | { type: 'removeEdge'; edgeId: string }
+  | { type: 'compute'; requestId: number; full: boolean }
+  | {
+      type: 'monteCarlo';
+      requestId: number;
+      nodes: EconNodeData[];
+      edges: EconEdgeData[];
+      options: ComputeOptions & MonteCarloSettings;
+    }
+  | {
+      type: 'sensitivity';
+      requestId: number;
+      nodes: EconNodeData[];
+      edges: EconEdgeData[];
+      options: SensitivityOptions;
+    }
+  | {
+      type: 'goalSeek';
+      requestId: number;
+      nodes: EconNodeData[];
+      edges: EconEdgeData[];
+      options: GoalSeekOptions;
+    }
+  | {
+      type: 'scenarios';
+      requestId: number;
+      nodes: EconNodeData[];
+      edges: EconEdgeData[];
+      options: ComputeOptions & { scenarios: Scenario[] };
+    };
+
+export type ComputeResponse =
+  | { type: 'compute'; requestId: number; result: GraphComputeResult | null; error?: string }
+  | { type: 'monteCarlo'; requestId: number; result: MonteCarloResult | null; error?: string }
+  | { type: 'sensitivity'; requestId: number; result: SensitivityResult | null; error?: string }
+  | { type: 'goalSeek'; requestId: number; result: GoalSeekResult | null; error?: string }
+  | { type: 'scenarios'; requestId: number; result: ScenarioComparison | null; error?: string };
+
+const captureErrors = <Result>(run: () => Result) => {
+  try {
+    return { result: run() };
+  } catch (error) {
+    return { result: null, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+export const runComputeCommand = (engine: GraphEngine, command: ComputeCommand): ComputeResponse | null => {
+  switch (command.type) {
+    case 'load':
+      engine.load(command.nodes, command.edges);
+      return null;
+    case 'setMonths':
+      engine.setMonths(command.months);
+      return null;
+    case 'updateNode':
+      engine.updateNode(command.node);
+      return null;
+    case 'removeNode':
+      engine.removeNode(command.nodeId);
+      return null;
+    case 'updateEdge':
+      engine.updateEdge(command.edge);
+      return null;
+    case 'removeEdge':
+      engine.removeEdge(command.edgeId);
+      return null;
+    case 'compute':
+      return {
+        type: 'compute',
+        requestId: command.requestId,
+        ...captureErrors(() => {
+          const result = engine.compute();
+          return command.full ? engine.getResult() : result;
+        }),
+      };
+    case 'monteCarlo':
+      return {
+        type: 'monteCarlo',
+        requestId: command.requestId,
+        ...captureErrors(() => runMonteCarlo(command.nodes, command.edges, command.options)),
+      };
+    case 'sensitivity':
+      return {
+        type: 'sensitivity',
+        requestId: command.requestId,
+        ...captureErrors(() => runSensitivity(command.nodes, command.edges, command.options)),
+      };
+    case 'goalSeek':
+      return {
+        type: 'goalSeek',
+        requestId: command.requestId,
+        ...captureErrors(() => runGoalSeek(command.nodes, command.edges, command.options)),
+      };
+    case 'scenarios':
+      return {
+        type: 'scenarios',
+        requestId: command.requestId,
+        ...captureErrors(() =>
+          compareScenarios(command.nodes, command.edges, command.options.scenarios, command.options),
+        ),
+      };
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,11 @@
+import { createGraphEngine } from './computeGraph';
+import { runComputeCommand, type ComputeCommand } from './computeProtocol';
+
+const engine = createGraphEngine();
+
+self.onmessage = (event: MessageEvent<ComputeCommand>) => {
+  const response = runComputeCommand(engine, event.data);
+  if (response) {
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeFormula, compileFormula, evaluateRpn, FormulaError, renameFormulaVariables } from './formula';
+
+const evaluate = (formula: string, variables: Record<string, number> = {}) =>
+  evaluateRpn(compileFormula(formula), variables);
+
+describe('formula evaluation', () => {
+  it('applies precedence, associativity and unary operators', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluate('-2 ^ 2')).toBe(-4);
+    expect(evaluate('(income - rent) % 7', { income: 3000, rent: 1000 })).toBe(5);
+    expect(evaluate('income >= 3000', { income: 3000 })).toBe(1);
+  });
+
+  it('evaluates built-in functions', () => {
+    expect(evaluate('sum(1, 2, 3) + avg(2, 4)')).toBe(9);
+    expect(evaluate('clamp(x, 0, 10)', { x: 14 })).toBe(10);
+    expect(evaluate('round(1.2345, 2)')).toBe(1.23);
+    expect(evaluate('if(x > 1, 10, 20)', { x: 0 })).toBe(20);
+  });
+
+  it('evaluates finance functions', () => {
+    expect(evaluate('pmt(0.01, 12, 1000)')).toBeCloseTo(-88.8488, 4);
+    expect(evaluate('pmt(0, 10, 1000)')).toBe(-100);
+    expect(evaluate('fv(0.01, 12, -100)')).toBeCloseTo(1268.2503, 4);
+    expect(evaluate('pv(0.01, 12, -88.848788678)')).toBeCloseTo(1000, 4);
+    expect(evaluate('npv(0.1, 110, 121)')).toBeCloseTo(200, 8);
+    expect(evaluate('rate(12, -88.848788678, 1000)')).toBeCloseTo(0.01, 8);
+  });
+
+  it('reports errors with the position of the offending token', () => {
+    expect(() => evaluate('income * 2', {})).toThrow('Unknown variable: income');
+    try {
+      evaluate('1 + pow(2)');
+    } catch (error) {
+      expect(error).toBeInstanceOf(FormulaError);
+      expect(error).toMatchObject({ message: 'pow expects 2 arguments', start: 4, end: 7 });
+    }
+    expect.assertions(3);
+  });
+});
+
+describe('analyzeFormula', () => {
+  it('flags unknown variables without evaluating', () => {
+    expect(analyzeFormula('income / months', ['income'])).toEqual([
+      { message: 'Unknown variable: months', start: 9, end: 15, identifier: 'months' },
+    ]);
+    expect(analyzeFormula('  ', [])).toEqual([{ message: 'Missing formula', start: 0, end: 0 }]);
+  });
+});
+
+describe('renameFormulaVariables', () => {
+  it('renames variables but not functions or partial matches', () => {
+    const renames = new Map([
+      ['income', 'income_2'],
+      ['sum', 'total'],
+    ]);
+    expect(renameFormulaVariables('sum(income, incomeTax) + sum', renames)).toBe('sum(income_2, incomeTax) + total');
+  });
+});
@@ -0,0 +1,460 @@
+type TokenType = 'number' | 'identifier' | 'operator' | 'lparen' | 'rparen' | 'comma';
+
+type Span = {
+  start: number;
+  end: number;
+};
+
+type Token = Span & {
+  type: TokenType;
+  value: string;
+};
+
+export type RpnToken = Span &
+  (
+    | { type: 'number'; value: number }
+    | { type: 'identifier'; value: string }
+    | { type: 'operator'; value: string }
+    | { type: 'function'; value: string; argCount: number }
+  );
+
+export type FormulaDiagnostic = Span & {
+  message: string;
+  identifier?: string;
+};
+
+export class FormulaError extends Error {
+  start: number;
+  end: number;
+
+  constructor(message: string, span: Span) {
+    super(message);
+    this.name = 'FormulaError';
+    this.start = span.start;
+    this.end = span.end;
+  }
+}
+
+const OPERATORS: Record<string, { precedence: number; assoc: 'left' | 'right'; args: number }> = {
+  '<': { precedence: 0, assoc: 'left', args: 2 },
+  '<=': { precedence: 0, assoc: 'left', args: 2 },
+  '>': { precedence: 0, assoc: 'left', args: 2 },
+  '>=': { precedence: 0, assoc: 'left', args: 2 },
+  '==': { precedence: 0, assoc: 'left', args: 2 },
+  '!=': { precedence: 0, assoc: 'left', args: 2 },
+  '+': { precedence: 1, assoc: 'left', args: 2 },
+  '-': { precedence: 1, assoc: 'left', args: 2 },
+  '*': { precedence: 2, assoc: 'left', args: 2 },
+  '/': { precedence: 2, assoc: 'left', args: 2 },
+  '%': { precedence: 2, assoc: 'left', args: 2 },
+  'u-': { precedence: 3, assoc: 'right', args: 1 },
+  'u+': { precedence: 3, assoc: 'right', args: 1 },
+  '^': { precedence: 4, assoc: 'right', args: 2 },
+};
+
+const UNARY_OPERATORS: Record<string, string> = {
+  '-': 'u-',
+  '+': 'u+',
+};
+
+const FUNCTIONS: Record<string, { minArgs: number; maxArgs: number }> = {
+  sum: { minArgs: 1, maxArgs: Infinity },
+  min: { minArgs: 1, maxArgs: Infinity },
+  max: { minArgs: 1, maxArgs: Infinity },
+  avg: { minArgs: 1, maxArgs: Infinity },
+  abs: { minArgs: 1, maxArgs: 1 },
+  round: { minArgs: 1, maxArgs: 2 },
+  floor: { minArgs: 1, maxArgs: 1 },
+  ceil: { minArgs: 1, maxArgs: 1 },
+  clamp: { minArgs: 3, maxArgs: 3 },
+  pow: { minArgs: 2, maxArgs: 2 },
+  if: { minArgs: 3, maxArgs: 3 },
+  pmt: { minArgs: 3, maxArgs: 5 },
+  fv: { minArgs: 3, maxArgs: 5 },
+  pv: { minArgs: 3, maxArgs: 5 },
+  npv: { minArgs: 2, maxArgs: Infinity },
+  rate: { minArgs: 3, maxArgs: 6 },
+};
+
+export const FORMULA_FUNCTIONS = Object.keys(FUNCTIONS);
+
+const TOKEN_PATTERN =
+  /\s*(?:([A-Za-z_][A-Za-z0-9_]*)|((?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?)|(<=|>=|==|!=|[<>=]|[+\-*/%^])|([(),]))/y;
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    TOKEN_PATTERN.lastIndex = index;
+    const match = TOKEN_PATTERN.exec(expression);
+    if (!match) {
+      if (expression.slice(index).trim() === '') {
+        break;
+      }
+      const position = index + expression.slice(index).search(/\S/);
+      throw new FormulaError(`Unexpected character: ${expression[position]}`, { start: position, end: position + 1 });
+    }
+    index = TOKEN_PATTERN.lastIndex;
+    const [text, identifier, number, operator, punctuation] = match;
+    const span = { start: index - text.trimStart().length, end: index };
+    if (identifier !== undefined) {
+      tokens.push({ type: 'identifier', value: identifier, ...span });
+    } else if (number !== undefined) {
+      tokens.push({ type: 'number', value: number, ...span });
+    } else if (operator !== undefined) {
+      tokens.push({ type: 'operator', value: operator === '=' ? '==' : operator, ...span });
+    } else if (punctuation === '(') {
+      tokens.push({ type: 'lparen', value: punctuation, ...span });
+    } else if (punctuation === ')') {
+      tokens.push({ type: 'rparen', value: punctuation, ...span });
+    } else {
+      tokens.push({ type: 'comma', value: punctuation, ...span });
+    }
+  }
+
+  return tokens;
+};
+
+const toRpn = (tokens: Token[]): RpnToken[] => {
+  const output: RpnToken[] = [];
+  const operators: Token[] = [];
+  const argCounts: number[] = [];
+
+  const flushOperator = (op: Token) => {
+    if (op.type !== 'operator') {
+      throw new FormulaError('Mismatched parentheses', op);
+    }
+    output.push({ type: 'operator', value: op.value, start: op.start, end: op.end });
+  };
+
+  for (let i = 0; i < tokens.length; i += 1) {
+    const token = tokens[i];
+    const prevType = i === 0 ? null : tokens[i - 1].type;
+    switch (token.type) {
+      case 'number':
+        output.push({ type: 'number', value: Number(token.value), start: token.start, end: token.end });
+        break;
+      case 'identifier': {
+        const next = tokens[i + 1];
+        if (next?.type === 'lparen') {
+          operators.push(token);
+          argCounts.push(0);
+        } else {
+          output.push({ type: 'identifier', value: token.value, start: token.start, end: token.end });
+        }
+        break;
+      }
+      case 'operator': {
+        const isPrefix =
+          prevType === null || prevType === 'operator' || prevType === 'lparen' || prevType === 'comma';
+        if (isPrefix) {
+          const unary = UNARY_OPERATORS[token.value];
+          if (!unary) {
+            throw new FormulaError(`Unexpected operator: ${token.value}`, token);
+          }
+          operators.push({ ...token, value: unary });
+          break;
+        }
+        const opInfo = OPERATORS[token.value];
+        while (operators.length > 0) {
+          const top = operators[operators.length - 1];
+          if (top.type !== 'operator') {
+            break;
+          }
+          const topInfo = OPERATORS[top.value];
+          if (
+            (opInfo.assoc === 'left' && opInfo.precedence <= topInfo.precedence) ||
+            (opInfo.assoc === 'right' && opInfo.precedence < topInfo.precedence)
+          ) {
+            flushOperator(operators.pop()!);
+            continue;
+          }
+          break;
+        }
+        operators.push(token);
+        break;
+      }
+      case 'lparen':
+        operators.push(token);
+        break;
+      case 'comma':
+        while (operators.length > 0 && operators[operators.length - 1].type !== 'lparen') {
+          flushOperator(operators.pop()!);
+        }
+        if (operators.length === 0 || argCounts.length === 0) {
+          throw new FormulaError('Unexpected comma', token);
+        }
+        argCounts[argCounts.length - 1] += 1;
+        break;
+      case 'rparen':
+        while (operators.length > 0 && operators[operators.length - 1].type !== 'lparen') {
+          flushOperator(operators.pop()!);
+        }
+        if (operators.length === 0) {
+          throw new FormulaError('Mismatched parentheses', token);
+        }
+        operators.pop();
+        if (operators.length > 0 && operators[operators.length - 1].type === 'identifier') {
+          const funcToken = operators.pop()!;
+          const commaCount = argCounts.pop() ?? 0;
+          const argCount = prevType === 'lparen' ? 0 : commaCount + 1;
+          const { value, start, end } = funcToken;
+          output.push({ type: 'function', value, argCount, start, end });
+        }
+        break;
+      default:
+        break;
+    }
+  }
+
+  while (operators.length > 0) {
+    flushOperator(operators.pop()!);
+  }
+
+  return output;
+};
+
+const growthFactor = (rate: number, periods: number) => (1 + rate) ** periods;
+
+const payment = (rate: number, periods: number, presentValue: number, futureValue = 0, type = 0) => {
+  if (rate === 0) {
+    return -(presentValue + futureValue) / periods;
+  }
+  const growth = growthFactor(rate, periods);
+  return -(rate * (futureValue + presentValue * growth)) / ((1 + rate * type) * (growth - 1));
+};
+
+const futureValueOf = (rate: number, periods: number, paymentValue: number, presentValue = 0, type = 0) => {
+  if (rate === 0) {
+    return -(presentValue + paymentValue * periods);
+  }
+  const growth = growthFactor(rate, periods);
+  return -(presentValue * growth + (paymentValue * (1 + rate * type) * (growth - 1)) / rate);
+};
+
+const presentValueOf = (rate: number, periods: number, paymentValue: number, futureValue = 0, type = 0) => {
+  if (rate === 0) {
+    return -(futureValue + paymentValue * periods);
+  }
+  const growth = growthFactor(rate, periods);
+  return -(futureValue + (paymentValue * (1 + rate * type) * (growth - 1)) / rate) / growth;
+};
+
+const netPresentValue = (rate: number, cashFlows: number[]) =>
+  cashFlows.reduce((total, value, index) => total + value / growthFactor(rate, index + 1), 0);
+
+const rateOf = (
+  periods: number,
+  paymentValue: number,
+  presentValue: number,
+  futureValue = 0,
+  type = 0,
+  guess = 0.1,
+) => {
+  const balance = (rate: number) =>
+    rate === 0
+      ? presentValue + paymentValue * periods + futureValue
+      : presentValue * growthFactor(rate, periods) +
+        (paymentValue * (1 + rate * type) * (growthFactor(rate, periods) - 1)) / rate +
+        futureValue;
+  let rate = guess;
+  for (let iteration = 0; iteration < 100; iteration += 1) {
+    const value = balance(rate);
+    const step = Math.max(1e-7, Math.abs(rate) * 1e-6);
+    const slope = (balance(rate + step) - value) / step;
+    if (!Number.isFinite(slope) || slope === 0) {
+      break;
+    }
+    const next = rate - value / slope;
+    if (Math.abs(next - rate) < 1e-10) {
+      return next;
+    }
+    rate = next;
+  }
+  throw new Error('rate did not converge');
+};
+
+const applyOperator = (operator: string, left: number, right: number) => {
+  switch (operator) {
+    case '+':
+      return left + right;
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      return left / right;
+    case '%':
+      return left % right;
+    case '^':
+      return left ** right;
+    case '<':
+      return left < right ? 1 : 0;
+    case '<=':
+      return left <= right ? 1 : 0;
+    case '>':
+      return left > right ? 1 : 0;
+    case '>=':
+      return left >= right ? 1 : 0;
+    case '==':
+      return left === right ? 1 : 0;
+    case '!=':
+      return left !== right ? 1 : 0;
+    default:
+      throw new Error(`Unsupported operator: ${operator}`);
+  }
+};
+
+const applyFunction = (name: string, args: number[]) => {
+  switch (name) {
+    case 'sum':
+      return args.reduce((total, val) => total + val, 0);
+    case 'min':
+      return Math.min(...args);
+    case 'max':
+      return Math.max(...args);
+    case 'avg':
+      return args.reduce((total, val) => total + val, 0) / args.length;
+    case 'abs':
+      return Math.abs(args[0]);
+    case 'round': {
+      const factor = 10 ** (args[1] ?? 0);
+      return Math.round(args[0] * factor) / factor;
+    }
+    case 'floor':
+      return Math.floor(args[0]);
+    case 'ceil':
+      return Math.ceil(args[0]);
+    case 'clamp':
+      return Math.min(Math.max(args[0], args[1]), args[2]);
+    case 'pow':
+      return args[0] ** args[1];
+    case 'if':
+      return args[0] !== 0 ? args[1] : args[2];
+    case 'pmt':
+      return payment(args[0], args[1], args[2], args[3], args[4]);
+    case 'fv':
+      return futureValueOf(args[0], args[1], args[2], args[3], args[4]);
+    case 'pv':
+      return presentValueOf(args[0], args[1], args[2], args[3], args[4]);
+    case 'npv':
+      return netPresentValue(args[0], args.slice(1));
+    case 'rate':
+      return rateOf(args[0], args[1], args[2], args[3], args[4], args[5]);
+    default:
+      throw new Error(`Unsupported function: ${name}`);
+  }
+};
+
+const describeArity = ({ minArgs, maxArgs }: { minArgs: number; maxArgs: number }) => {
+  if (maxArgs === Infinity) {
+    return `at least ${minArgs}`;
+  }
+  return minArgs === maxArgs ? `${minArgs}` : `${minArgs}-${maxArgs}`;
+};
+
+type IdentifierToken = Extract<RpnToken, { type: 'identifier' }>;
+
+const runRpn = (tokens: RpnToken[], resolveIdentifier: (token: IdentifierToken) => number, dryRun: boolean) => {
+  const stack: number[] = [];
+  for (const token of tokens) {
+    if (token.type === 'number') {
+      stack.push(token.value);
+      continue;
+    }
+    if (token.type === 'identifier') {
+      stack.push(resolveIdentifier(token));
+      continue;
+    }
+    if (token.type === 'operator') {
+      const op = OPERATORS[token.value];
+      if (stack.length < op.args) {
+        throw new FormulaError('Invalid expression', token);
+      }
+      if (token.value === 'u-' || token.value === 'u+') {
+        const value = stack.pop()!;
+        stack.push(token.value === 'u-' ? -value : value);
+        continue;
+      }
+      const right = stack.pop()!;
+      const left = stack.pop()!;
+      stack.push(dryRun ? 0 : applyOperator(token.value, left, right));
+      continue;
+    }
+    const definition = FUNCTIONS[token.value];
+    if (!definition) {
+      throw new FormulaError(`Unsupported function: ${token.value}`, token);
+    }
+    if (token.argCount < definition.minArgs || token.argCount > definition.maxArgs) {
+      throw new FormulaError(`${token.value} expects ${describeArity(definition)} arguments`, token);
+    }
+    if (stack.length < token.argCount) {
+      throw new FormulaError('Invalid function usage', token);
+    }
+    const args = stack.splice(stack.length - token.argCount, token.argCount);
+    stack.push(dryRun ? 0 : applyFunction(token.value, args));
+  }
+  if (stack.length !== 1) {
+    throw new FormulaError('Invalid expression', {
+      start: tokens[0]?.start ?? 0,
+      end: tokens[tokens.length - 1]?.end ?? 0,
+    });
+  }
+  return stack[0];
+};
+
+export const evaluateRpn = (tokens: RpnToken[], variables: Record<string, number>) =>
+  runRpn(
+    tokens,
+    (token) => {
+      if (!(token.value in variables)) {
+        throw new FormulaError(`Unknown variable: ${token.value}`, token);
+      }
+      return variables[token.value];
+    },
+    false,
+  );
+
+export const compileFormula = (formula: string) => toRpn(tokenize(formula));
+
+export const analyzeFormula = (formula: string, variables: string[]): FormulaDiagnostic[] => {
+  if (formula.trim() === '') {
+    return [{ message: 'Missing formula', start: 0, end: 0 }];
+  }
+  try {
+    const rpn = compileFormula(formula);
+    runRpn(rpn, () => 0, true);
+    const known = new Set(variables);
+    return rpn
+      .filter((token): token is IdentifierToken => token.type === 'identifier' && !known.has(token.value))
+      .map((token) => ({
+        message: `Unknown variable: ${token.value}`,
+        start: token.start,
+        end: token.end,
+        identifier: token.value,
+      }));
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return [{ message: error.message, start: error.start, end: error.end }];
+    }
+    throw error;
+  }
+};
+
+export const renameFormulaVariables = (formula: string, renames: Map<string, string>) => {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(formula);
+  } catch (error) {
+    if (error instanceof FormulaError) {
+      return formula;
+    }
+    throw error;
+  }
+  return tokens.reduceRight((result, token, index) => {
+    const isVariable = token.type === 'identifier' && tokens[index + 1]?.type !== 'lparen';
+    const renamed = isVariable ? renames.get(token.value) : undefined;
+    return renamed === undefined ? result : `${result.slice(0, token.start)}${renamed}${result.slice(token.end)}`;
+  }, formula);
+};
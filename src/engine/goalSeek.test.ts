@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import type { EconEdgeData, EconNodeData } from '../models/types';
+import { runGoalSeek, type GoalSeekOptions } from './goalSeek';
+
+const nodes: EconNodeData[] = [
+  { id: 'income', label: 'Income', kind: 'income', baseValue: 1000, timeUnit: 'per_month' },
+  { id: 'fund', label: 'Fund', kind: 'asset', interestRateAnnual: 0 },
+  { id: 'goal', label: 'Goal', kind: 'output', targetAmount: 6000 },
+];
+
+const edges: EconEdgeData[] = [
+  { id: 'income-fund', source: 'income', target: 'fund', kind: 'flow' },
+  { id: 'fund-goal', source: 'fund', target: 'goal', kind: 'flow' },
+];
+
+const seekIncome = (options: Partial<GoalSeekOptions>) =>
+  runGoalSeek(nodes, edges, {
+    targetId: 'fund',
+    targetValue: 24000,
+    inputNodeId: 'income',
+    inputField: 'baseValue',
+    min: 0,
+    max: 5000,
+    months: 12,
+    ...options,
+  });
+
+describe('runGoalSeek', () => {
+  it('bisects an input until the target is within tolerance', () => {
+    const result = seekIncome({});
+
+    expect(result.status).toBe('solved');
+    expect(result.value).toBeCloseTo(2000, 2);
+    expect(Math.abs(result.achieved - 24000)).toBeLessThanOrEqual(0.01);
+  });
+
+  it('gives up without iterating when the bounds do not bracket the target', () => {
+    const result = seekIncome({ max: 1500 });
+
+    expect(result).toMatchObject({ status: 'noSolution', value: 1500, achieved: 18000, iterations: 2 });
+  });
+
+  it('stops with the closest value when a stepped target never converges', () => {
+    const result = seekIncome({ targetId: 'goal', targetValue: 6.5, min: 500, max: 5000, months: 24 });
+
+    expect(result.status).toBe('noSolution');
+    expect([6, 7]).toContain(result.achieved);
+    expect(result.iterations).toBeGreaterThan(2);
+    expect(result.iterations).toBeLessThanOrEqual(100);
+  });
+
+  it('rejects an input on the target node and inverted bounds', () => {
+    expect(() => seekIncome({ inputNodeId: 'fund', inputField: 'interestRateAnnual' })).toThrow(
+      'Pick an input on a different node than the target',
+    );
+    expect(() => seekIncome({ min: 10, max: 10 })).toThrow('Bounds must be numbers with min below max');
+  });
+});
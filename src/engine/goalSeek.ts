@@ -0,0 +1,99 @@
+import type { EconEdgeData, EconNodeData, GoalSeekResult, UncertainField } from '../models/types';
+import { resolveMonths, type ComputeOptions } from './computeGraph';
+import { readTargetValue } from './sensitivity';
+
+const MAX_ITERATIONS = 100;
+const DEFAULT_TOLERANCE = 0.01;
+
+export type GoalSeekOptions = ComputeOptions & {
+  targetId: string;
+  targetValue: number;
+  inputNodeId: string;
+  inputField: UncertainField;
+  min: number;
+  max: number;
+  tolerance?: number;
+};
+
+export const runGoalSeek = (
+  nodes: EconNodeData[],
+  edges: EconEdgeData[],
+  options: GoalSeekOptions,
+): GoalSeekResult => {
+  const months = resolveMonths(options.months);
+  const index = nodes.findIndex((node) => node.id === options.inputNodeId);
+  if (index < 0) {
+    throw new Error(`Unknown node: ${options.inputNodeId}`);
+  }
+  if (!nodes.some((node) => node.id === options.targetId)) {
+    throw new Error(`Unknown node: ${options.targetId}`);
+  }
+  if (options.inputNodeId === options.targetId) {
+    throw new Error('Pick an input on a different node than the target');
+  }
+  if (![options.min, options.max, options.targetValue].every(Number.isFinite) || options.min >= options.max) {
+    throw new Error('Bounds must be numbers with min below max');
+  }
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+
+  const evaluate = (value: number) => {
+    const variant = nodes.slice();
+    variant[index] = { ...nodes[index], [options.inputField]: value };
+    return readTargetValue(variant, edges, options, months);
+  };
+
+  let iterations = 0;
+  let best = { value: options.min, achieved: Number.NaN, gap: Number.POSITIVE_INFINITY };
+  const probe = (value: number) => {
+    iterations += 1;
+    const achieved = evaluate(value);
+    const gap = achieved - options.targetValue;
+    if (Math.abs(gap) < best.gap) {
+      best = { value, achieved, gap: Math.abs(gap) };
+    }
+    return gap;
+  };
+  const finish = (status: GoalSeekResult['status']): GoalSeekResult => ({
+    status,
+    targetId: options.targetId,
+    targetValue: options.targetValue,
+    inputNodeId: options.inputNodeId,
+    inputField: options.inputField,
+    min: options.min,
+    max: options.max,
+    value: best.value,
+    achieved: best.achieved,
+    months,
+    iterations,
+  });
+
+  let low = options.min;
+  let high = options.max;
+  let lowGap = probe(low);
+  const highGap = probe(high);
+  if (best.gap <= tolerance) {
+    return finish('solved');
+  }
+  if (Math.sign(lowGap) === Math.sign(highGap)) {
+    return finish('noSolution');
+  }
+
+  // Bisection rather than secant: output targets are step functions of their inputs.
+  while (iterations < MAX_ITERATIONS) {
+    const middle = (low + high) / 2;
+    const gap = probe(middle);
+    if (Math.abs(gap) <= tolerance) {
+      return finish('solved');
+    }
+    if (Math.sign(gap) === Math.sign(lowGap)) {
+      low = middle;
+      lowGap = gap;
+    } else {
+      high = middle;
+    }
+    if (high - low <= Number.EPSILON * Math.max(1, Math.abs(low), Math.abs(high))) {
+      break;
+    }
+  }
+  return finish(best.gap <= tolerance ? 'solved' : 'noSolution');
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { EconEdgeData, EconNodeData } from '../models/types';
+import { createRandom, runMonteCarlo, validateDistribution } from './monteCarlo';
+
+const nodes: EconNodeData[] = [
+  {
+    id: 'income',
+    label: 'Income',
+    kind: 'income',
+    baseValue: 1000,
+    timeUnit: 'per_month',
+    distributions: { baseValue: { kind: 'normal', mean: 1000, stdDev: 200 } },
+  },
+  { id: 'fund', label: 'Fund', kind: 'asset', interestRateAnnual: 0 },
+  { id: 'goal', label: 'Goal', kind: 'output', targetAmount: 6000 },
+];
+
+const edges: EconEdgeData[] = [
+  { id: 'income-fund', source: 'income', target: 'fund', kind: 'flow' },
+  { id: 'fund-goal', source: 'fund', target: 'goal', kind: 'flow' },
+];
+
+describe('createRandom', () => {
+  it('repeats its sequence for the same seed', () => {
+    const draw = (seed: number) => {
+      const random = createRandom(seed);
+      return Array.from({ length: 5 }, () => random());
+    };
+
+    expect(draw(42)).toEqual(draw(42));
+    expect(draw(42)).not.toEqual(draw(43));
+    draw(42).forEach((value) => expect(value >= 0 && value < 1).toBe(true));
+  });
+});
+
+describe('runMonteCarlo', () => {
+  it('produces the same result twice for the same seed', () => {
+    const options = { months: 12, runs: 50, seed: 7 };
+
+    const first = runMonteCarlo(nodes, edges, options);
+
+    expect(runMonteCarlo(nodes, edges, options)).toEqual(first);
+    expect(runMonteCarlo(nodes, edges, { ...options, seed: 8 }).nodes.fund.summary).not.toEqual(
+      first.nodes.fund.summary,
+    );
+  });
+
+  it('keeps monthly bands only for assets and outputs', () => {
+    const result = runMonteCarlo(nodes, edges, { months: 12, runs: 50, seed: 1 });
+
+    expect(result.nodes.income.bands).toBeUndefined();
+    expect(result.nodes.fund.bands?.p50).toHaveLength(12);
+    const { p10, p90 } = result.nodes.fund.bands!;
+    expect(p10.every((value, month) => value <= p90[month])).toBe(true);
+    const reach = result.nodes.goal.reachProbability ?? [];
+    expect(reach).toHaveLength(12);
+    expect(reach.every((value, month) => month === 0 || value >= reach[month - 1])).toBe(true);
+    expect(reach[11]).toBeLessThanOrEqual(1);
+  });
+
+  it('caps runs by the horizon and skips invalid distributions', () => {
+    expect(() => runMonteCarlo(nodes, edges, { months: 480, runs: 2084, seed: 1 })).toThrow(
+      'Runs must be between 1 and 2083 for a 480-month horizon',
+    );
+
+    const invalid = nodes.map((node) =>
+      node.id === 'income' ? { ...node, distributions: { baseValue: { kind: 'normal' as const, stdDev: -1 } } } : node,
+    );
+    const result = runMonteCarlo(invalid, edges, { months: 12, runs: 3, seed: 1 });
+
+    expect(result.errors).toEqual({ income: 'baseValue: Standard deviation cannot be negative' });
+    expect(result.nodes.fund.summary.p10).toBe(12000);
+    expect(result.nodes.fund.summary.p90).toBe(12000);
+  });
+});
+
+describe('validateDistribution', () => {
+  it('checks the parameters of each distribution kind', () => {
+    expect(validateDistribution({ kind: 'lognormal', mean: 0, stdDev: 1 })).toBe('Lognormal mean must be positive');
+    expect(validateDistribution({ kind: 'uniform', min: 2, max: 1 })).toBe('Max must be at least min');
+    expect(validateDistribution({ kind: 'triangular', min: 0, mode: 5, max: 4 })).toBe(
+      'Mode must be between min and max',
+    );
+    expect(validateDistribution({ kind: 'triangular', min: 0, mode: 2, max: 4 })).toBeNull();
+  });
+});
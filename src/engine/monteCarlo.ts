@@ -0,0 +1,230 @@
+import type {
+  Distribution,
+  EconEdgeData,
+  EconNodeData,
+  MonteCarloNodeResult,
+  MonteCarloResult,
+  MonteCarloSettings,
+  NodeKind,
+  UncertainField,
+} from '../models/types';
+import { createGraphEngine, resolveMonths, type ComputeOptions } from './computeGraph';
+
+export const DEFAULT_MONTE_CARLO_SETTINGS: MonteCarloSettings = { runs: 200, seed: 1 };
+export const MAX_MONTE_CARLO_RUNS = 5000;
+// Caps runs × months, which sizes every per-month series buffer.
+export const MAX_MONTE_CARLO_SAMPLES = 1000000;
+
+// Monthly bands are only kept for balances and outputs; other nodes get a summary of their final value.
+const BANDED_KINDS = new Set<NodeKind>(['asset', 'output']);
+
+export const getMaxMonteCarloRuns = (months: number | undefined) =>
+  Math.max(1, Math.min(MAX_MONTE_CARLO_RUNS, Math.floor(MAX_MONTE_CARLO_SAMPLES / resolveMonths(months))));
+
+export const UNCERTAIN_FIELDS_BY_KIND: Partial<Record<NodeKind, UncertainField[]>> = {
+  income: ['baseValue', 'growthRateAnnual'],
+  expense: ['baseValue', 'growthRateAnnual'],
+  value: ['baseValue'],
+  add: ['leftValue', 'rightValue'],
+  subtract: ['leftValue', 'rightValue'],
+  multiply: ['leftValue', 'rightValue'],
+  divide: ['leftValue', 'rightValue'],
+  condition: ['threshold', 'thenValue', 'elseValue'],
+  asset: ['interestRateAnnual'],
+  loan: ['principal', 'interestRateAnnual', 'extraPayment'],
+  tax: ['standardDeduction'],
+  output: ['targetAmount'],
+};
+
+export const createRandom = (seed: number) => {
+  let state = Math.floor(seed) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const sampleStandardNormal = (random: () => number) =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+export const validateDistribution = (distribution: Distribution) => {
+  const { kind, mean = 0, stdDev = 0, min = 0, max = 0 } = distribution;
+  if ((kind === 'normal' || kind === 'lognormal') && stdDev < 0) {
+    return 'Standard deviation cannot be negative';
+  }
+  if (kind === 'lognormal' && mean <= 0) {
+    return 'Lognormal mean must be positive';
+  }
+  if ((kind === 'uniform' || kind === 'triangular') && max < min) {
+    return 'Max must be at least min';
+  }
+  const { mode } = distribution;
+  if (kind === 'triangular' && mode !== undefined && (mode < min || mode > max)) {
+    return 'Mode must be between min and max';
+  }
+  return null;
+};
+
+export const sampleDistribution = (distribution: Distribution, random: () => number) => {
+  const { mean = 0, stdDev = 0, min = 0, max = 0 } = distribution;
+  switch (distribution.kind) {
+    case 'normal':
+      return mean + stdDev * sampleStandardNormal(random);
+    case 'uniform':
+      return min + (max - min) * random();
+    case 'triangular': {
+      if (max === min) {
+        return min;
+      }
+      const mode = distribution.mode ?? (min + max) / 2;
+      const draw = random();
+      const split = (mode - min) / (max - min);
+      return draw < split
+        ? min + Math.sqrt(draw * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - draw) * (max - min) * (max - mode));
+    }
+    case 'lognormal': {
+      const variance = Math.log(1 + (stdDev * stdDev) / (mean * mean));
+      const location = Math.log(mean) - variance / 2;
+      return Math.exp(location + Math.sqrt(variance) * sampleStandardNormal(random));
+    }
+    default:
+      return mean;
+  }
+};
+
+const percentile = (sorted: ArrayLike<number>, quantile: number) => {
+  if (sorted.length === 0) {
+    return Number.NaN;
+  }
+  const position = (sorted.length - 1) * quantile;
+  const lower = Math.floor(position);
+  const upper = Math.min(sorted.length - 1, lower + 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const summarizeSamples = (samples: Float64Array) => {
+  const sorted = samples.filter((value) => !Number.isNaN(value)).sort();
+  return { p10: percentile(sorted, 0.1), p50: percentile(sorted, 0.5), p90: percentile(sorted, 0.9) };
+};
+
+export const validateMonteCarloSettings = (settings: MonteCarloSettings, months: number | undefined) => {
+  const maxRuns = getMaxMonteCarloRuns(months);
+  if (!Number.isFinite(settings.runs) || settings.runs < 1 || settings.runs > maxRuns) {
+    return `Runs must be between 1 and ${maxRuns} for a ${resolveMonths(months)}-month horizon`;
+  }
+  return null;
+};
+
+const summarizeBands = (series: Float32Array, runs: number, months: number) => {
+  const bands = { p10: [] as number[], p50: [] as number[], p90: [] as number[] };
+  const column = new Float64Array(runs);
+  for (let month = 0; month < months; month += 1) {
+    for (let run = 0; run < runs; run += 1) {
+      column[run] = series[run * months + month];
+    }
+    const summary = summarizeSamples(column);
+    bands.p10.push(summary.p10);
+    bands.p50.push(summary.p50);
+    bands.p90.push(summary.p90);
+  }
+  return bands;
+};
+
+type NodeSamples = {
+  series?: Float32Array;
+  values: Float64Array;
+  reached?: Float64Array;
+  failedRuns: number;
+};
+
+export const runMonteCarlo = (
+  nodes: EconNodeData[],
+  edges: EconEdgeData[],
+  options: ComputeOptions & MonteCarloSettings,
+): MonteCarloResult => {
+  const settingsError = validateMonteCarloSettings(options, options.months);
+  if (settingsError) {
+    throw new Error(settingsError);
+  }
+  const months = resolveMonths(options.months);
+  const runs = Math.round(options.runs);
+  const random = createRandom(options.seed);
+  const errors: Record<string, string> = {};
+
+  const uncertainNodes = nodes
+    .map((node) => {
+      const entries = Object.entries(node.distributions ?? {}).filter(([field, distribution]) => {
+        const message = distribution ? validateDistribution(distribution) : null;
+        if (message) {
+          errors[node.id] = `${field}: ${message}`;
+        }
+        return distribution && !message;
+      }) as [UncertainField, Distribution][];
+      return { node, entries };
+    })
+    .filter(({ entries }) => entries.length > 0);
+
+  const samples = new Map<string, NodeSamples>(
+    nodes.map((node) => [
+      node.id,
+      {
+        series: BANDED_KINDS.has(node.kind) ? new Float32Array(runs * months) : undefined,
+        values: new Float64Array(runs),
+        reached: node.kind === 'output' ? new Float64Array(months) : undefined,
+        failedRuns: 0,
+      },
+    ]),
+  );
+
+  const engine = createGraphEngine({ months });
+  engine.load(nodes, edges);
+  for (let run = 0; run < runs; run += 1) {
+    uncertainNodes.forEach(({ node, entries }) => {
+      const sampled = Object.fromEntries(
+        entries.map(([field, distribution]) => [field, sampleDistribution(distribution, random)]),
+      );
+      engine.updateNode({ ...node, ...sampled });
+    });
+    engine.compute();
+    const result = engine.getResult();
+    result.nodes.forEach((node) => {
+      const entry = samples.get(node.id);
+      if (!entry) {
+        return;
+      }
+      if (result.errors[node.id] || !node.timeseries) {
+        entry.failedRuns += 1;
+        entry.values[run] = Number.NaN;
+        entry.series?.fill(Number.NaN, run * months, (run + 1) * months);
+        return;
+      }
+      entry.values[run] = node.computedValue ?? Number.NaN;
+      entry.series?.set(node.timeseries.slice(0, months), run * months);
+      if (entry.reached && node.computedValue !== undefined && node.computedValue > 0) {
+        entry.reached[node.computedValue - 1] += 1;
+      }
+    });
+  }
+
+  const results: Record<string, MonteCarloNodeResult> = {};
+  samples.forEach((entry, nodeId) => {
+    let reachedSoFar = 0;
+    results[nodeId] = {
+      summary: summarizeSamples(entry.values),
+      bands: entry.series ? summarizeBands(entry.series, runs, months) : undefined,
+      reachProbability: entry.reached
+        ? Array.from(entry.reached, (count) => {
+            reachedSoFar += count;
+            return reachedSoFar / runs;
+          })
+        : undefined,
+      failedRuns: entry.failedRuns,
+    };
+  });
+
+  return { runs, seed: options.seed, nodes: results, errors };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import type { GraphData } from '../models/types';
+import demo from '../demo/coffeeToHouse.json';
+import { applyScenario, compareScenarios, getScenarioFields } from './scenarios';
+
+const graph = demo as GraphData;
+const scenarios = graph.scenarios ?? [];
+
+describe('compareScenarios', () => {
+  it('computes the baseline and each scenario side by side', () => {
+    const comparison = compareScenarios(graph.nodes, graph.edges, scenarios, { months: 120 });
+
+    expect(comparison.scenarios.map((scenario) => scenario.name)).toEqual([
+      'Baseline',
+      'No coffee',
+      'Move to cheaper flat',
+      'Lose job',
+    ]);
+    expect(comparison.rows.map((row) => row.nodeId)).toEqual(['houseFund', 'monthsToDownPayment']);
+    const [baseline, noCoffee, cheaperFlat, loseJob] = comparison.rows[1].values;
+    expect(baseline).toBe(47);
+    expect(noCoffee).toBeLessThan(47);
+    expect(cheaperFlat).toBeLessThan(47);
+    expect(loseJob).toBe(-1);
+  });
+});
+
+describe('applyScenario', () => {
+  it('overrides only the nodes a scenario names and leaves the graph untouched', () => {
+    const noCoffee = scenarios.find((scenario) => scenario.id === 'no-coffee');
+
+    const nodes = applyScenario(graph.nodes, noCoffee);
+
+    expect(nodes.find((node) => node.id === 'coffee')?.baseValue).toBe(0);
+    expect(graph.nodes.find((node) => node.id === 'coffee')?.baseValue).not.toBe(0);
+    expect(nodes.filter((node) => node.id !== 'coffee')).toEqual(graph.nodes.filter((node) => node.id !== 'coffee'));
+  });
+
+  it('offers window fields only on flows', () => {
+    expect(getScenarioFields('income')).toEqual(['baseValue', 'growthRateAnnual', 'startMonth', 'endMonth']);
+    expect(getScenarioFields('asset')).toEqual(['interestRateAnnual']);
+  });
+});
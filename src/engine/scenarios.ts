@@ -0,0 +1,58 @@
+import type {
+  EconEdgeData,
+  EconNodeData,
+  NodeKind,
+  Scenario,
+  ScenarioComparison,
+  ScenarioField,
+} from '../models/types';
+import { computeGraph, resolveMonths, type ComputeOptions } from './computeGraph';
+import { UNCERTAIN_FIELDS_BY_KIND } from './monteCarlo';
+
+export const BASELINE_SCENARIO_NAME = 'Baseline';
+
+const FLOW_WINDOW_FIELDS: ScenarioField[] = ['startMonth', 'endMonth'];
+
+export const getScenarioFields = (kind: NodeKind): ScenarioField[] => {
+  const fields: ScenarioField[] = UNCERTAIN_FIELDS_BY_KIND[kind] ?? [];
+  return kind === 'income' || kind === 'expense' ? [...fields, ...FLOW_WINDOW_FIELDS] : fields;
+};
+
+export const applyScenarioToNode = (node: EconNodeData, scenario: Scenario | null | undefined): EconNodeData => {
+  const overrides = scenario?.overrides[node.id];
+  return overrides ? { ...node, ...overrides } : node;
+};
+
+export const applyScenario = (nodes: EconNodeData[], scenario: Scenario | null | undefined) =>
+  nodes.map((node) => applyScenarioToNode(node, scenario));
+
+export const compareScenarios = (
+  nodes: EconNodeData[],
+  edges: EconEdgeData[],
+  scenarios: Scenario[],
+  options: ComputeOptions = {},
+): ScenarioComparison => {
+  const columns = [null, ...scenarios];
+  const results = columns.map((scenario) => computeGraph(applyScenario(nodes, scenario), edges, options));
+  const rows = nodes
+    .filter((node) => node.kind === 'output' || node.kind === 'asset')
+    .map((node) => ({
+      nodeId: node.id,
+      label: node.label,
+      kind: node.kind,
+      values: results.map((result) => {
+        if (result.errors[node.id]) {
+          return null;
+        }
+        return result.nodes.find((item) => item.id === node.id)?.computedValue ?? null;
+      }),
+    }));
+  return {
+    months: resolveMonths(options.months),
+    scenarios: columns.map((scenario) => ({
+      id: scenario?.id ?? null,
+      name: scenario?.name ?? BASELINE_SCENARIO_NAME,
+    })),
+    rows,
+  };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { EconEdgeData, EconNodeData } from '../models/types';
+import { runSensitivity } from './sensitivity';
+
+const nodes: EconNodeData[] = [
+  { id: 'income', label: 'Income', kind: 'income', baseValue: 1000, timeUnit: 'per_month' },
+  { id: 'fund', label: 'Fund', kind: 'asset', interestRateAnnual: 0.12 },
+  { id: 'goal', label: 'Goal', kind: 'output', targetAmount: 100000 },
+];
+
+const edges: EconEdgeData[] = [
+  { id: 'income-fund', source: 'income', target: 'fund', kind: 'flow' },
+  { id: 'fund-goal', source: 'fund', target: 'goal', kind: 'flow' },
+];
+
+describe('runSensitivity', () => {
+  it('ranks inputs by how far they swing the target', () => {
+    const result = runSensitivity(nodes, edges, { targetId: 'fund', percent: 10, months: 12 });
+
+    expect(result.baseline).toBeCloseTo(12682.5, 1);
+    expect(result.entries.map((entry) => `${entry.nodeId}.${entry.field}`)).toEqual([
+      'income.baseValue',
+      'fund.interestRateAnnual',
+      'goal.targetAmount',
+    ]);
+    const [income, rate, target] = result.entries;
+    expect(income.low).toBeCloseTo(result.baseline * 0.9, 6);
+    expect(income.high).toBeCloseTo(result.baseline * 1.1, 6);
+    expect(rate.low).toBeLessThan(result.baseline);
+    expect(rate.high).toBeGreaterThan(result.baseline);
+    expect(target.high - target.low).toBe(0);
+  });
+
+  it('ranks an output that never reaches its target one month past the horizon', () => {
+    const result = runSensitivity(nodes, edges, { targetId: 'goal', percent: 10, months: 12 });
+
+    expect(result.baseline).toBe(13);
+  });
+
+  it('rejects targets that are not outputs or assets', () => {
+    expect(() => runSensitivity(nodes, edges, { targetId: 'income', percent: 10, months: 12 })).toThrow(
+      'Sensitivity needs an output or asset node',
+    );
+    expect(() => runSensitivity(nodes, edges, { targetId: 'fund', percent: 0, months: 12 })).toThrow(
+      'Percent must be a non-zero number',
+    );
+  });
+});
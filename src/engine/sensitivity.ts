@@ -0,0 +1,86 @@
+import type { EconEdgeData, EconNodeData, SensitivityEntry, SensitivityResult } from '../models/types';
+import { computeGraph, resolveMonths, type ComputeOptions } from './computeGraph';
+import { UNCERTAIN_FIELDS_BY_KIND } from './monteCarlo';
+
+export const DEFAULT_SENSITIVITY_PERCENT = 10;
+
+export type SensitivityOptions = ComputeOptions & {
+  targetId: string;
+  percent: number;
+};
+
+export const readTargetValue = (
+  nodes: EconNodeData[],
+  edges: EconEdgeData[],
+  options: ComputeOptions & { targetId: string },
+  months: number,
+) => {
+  const result = computeGraph(nodes, edges, options);
+  const error = result.errors[options.targetId];
+  if (error) {
+    throw new Error(error);
+  }
+  const target = result.nodes.find((node) => node.id === options.targetId);
+  if (!target || target.computedValue === undefined) {
+    throw new Error('Target has no computed value');
+  }
+  // An output that never reaches its target ranks as one month past the horizon.
+  if (target.kind === 'output' && target.computedValue < 0) {
+    return months + 1;
+  }
+  return target.computedValue;
+};
+
+export const runSensitivity = (
+  nodes: EconNodeData[],
+  edges: EconEdgeData[],
+  options: SensitivityOptions,
+): SensitivityResult => {
+  const months = resolveMonths(options.months);
+  const target = nodes.find((node) => node.id === options.targetId);
+  if (!target) {
+    throw new Error(`Unknown node: ${options.targetId}`);
+  }
+  if (target.kind !== 'output' && target.kind !== 'asset') {
+    throw new Error('Sensitivity needs an output or asset node');
+  }
+  const percent = Math.abs(options.percent);
+  if (!Number.isFinite(percent) || percent === 0) {
+    throw new Error('Percent must be a non-zero number');
+  }
+  const baseline = readTargetValue(nodes, edges, options, months);
+
+  const entries: SensitivityEntry[] = [];
+  nodes.forEach((node, index) => {
+    (UNCERTAIN_FIELDS_BY_KIND[node.kind] ?? []).forEach((field) => {
+      const baseValue = node[field];
+      if (baseValue === undefined || baseValue === 0) {
+        return;
+      }
+      const evaluateAt = (factor: number) => {
+        const variant = nodes.slice();
+        variant[index] = { ...node, [field]: baseValue * factor };
+        return readTargetValue(variant, edges, options, months);
+      };
+      const entry: SensitivityEntry = {
+        nodeId: node.id,
+        nodeLabel: node.label,
+        field,
+        baseValue,
+        low: baseline,
+        high: baseline,
+      };
+      try {
+        entry.low = evaluateAt(1 - percent / 100);
+        entry.high = evaluateAt(1 + percent / 100);
+      } catch (error) {
+        entry.error = error instanceof Error ? error.message : String(error);
+      }
+      entries.push(entry);
+    });
+  });
+
+  const swing = (entry: SensitivityEntry) => (entry.error ? -1 : Math.abs(entry.high - entry.low));
+  entries.sort((left, right) => swing(right) - swing(left));
+  return { targetId: options.targetId, percent, months, baseline, entries };
+};
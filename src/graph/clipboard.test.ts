@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { GraphData } from '../models/types';
+import { createUniqueId, extractSubgraph, parseClipboardGraph, remapGraphIds } from './clipboard';
+
+const graph: GraphData = {
+  nodes: [
+    { id: 'income', label: 'Income', kind: 'income', baseValue: 3000, position: { x: 0, y: 0 } },
+    { id: 'rent', label: 'Rent', kind: 'expense', baseValue: 1000, position: { x: 0, y: 100 } },
+    { id: 'savings', label: 'Savings', kind: 'calc', formula: 'income - rent', position: { x: 200, y: 50 } },
+  ],
+  edges: [
+    { id: 'income-savings', source: 'income', target: 'savings', kind: 'flow' },
+    { id: 'rent-savings', source: 'rent', target: 'savings', kind: 'flow', lagMonths: 1 },
+  ],
+};
+
+describe('extractSubgraph', () => {
+  it('keeps only edges between the selected nodes', () => {
+    const copied = extractSubgraph(graph, ['income', 'savings']);
+
+    expect(copied.nodes.map((node) => node.id)).toEqual(['income', 'savings']);
+    expect(copied.edges.map((edge) => edge.id)).toEqual(['income-savings']);
+  });
+});
+
+describe('remapGraphIds', () => {
+  it('gives pasted nodes and edges fresh ids and renames formula references', () => {
+    const existing = [...graph.nodes.map((node) => node.id), ...graph.edges.map((edge) => edge.id)];
+
+    const pasted = remapGraphIds(graph, existing, { x: 40, y: 40 });
+
+    expect(pasted.nodes.map((node) => node.id)).toEqual(['income_2', 'rent_2', 'savings_2']);
+    expect(pasted.nodes[2]).toMatchObject({ formula: 'income_2 - rent_2', position: { x: 240, y: 90 } });
+    expect(pasted.edges).toEqual([
+      { id: 'income-savings_2', source: 'income_2', target: 'savings_2', kind: 'flow' },
+      { id: 'rent-savings_2', source: 'rent_2', target: 'savings_2', kind: 'flow', lagMonths: 1 },
+    ]);
+    expect(graph.nodes[2].formula).toBe('income - rent');
+  });
+
+  it('keeps references to nodes outside the pasted selection', () => {
+    const copied = extractSubgraph(graph, ['savings']);
+
+    const pasted = remapGraphIds(copied, ['income', 'rent', 'savings', 'savings_2'], { x: 0, y: 0 });
+
+    expect(pasted.nodes).toMatchObject([{ id: 'savings_3', formula: 'income - rent' }]);
+  });
+});
+
+describe('createUniqueId', () => {
+  it('counts up from the stem of an already suffixed id', () => {
+    const taken = new Set(['income', 'income_2']);
+
+    expect(createUniqueId('income_2', taken)).toBe('income_3');
+    expect(taken.has('income_3')).toBe(true);
+  });
+});
+
+describe('parseClipboardGraph', () => {
+  it('accepts copied graphs and rejects other clipboard text', () => {
+    expect(parseClipboardGraph(JSON.stringify(graph))).toEqual({ nodes: graph.nodes, edges: graph.edges });
+    expect(parseClipboardGraph('income - rent')).toBeNull();
+    expect(parseClipboardGraph('{"nodes":[],"edges":[]}')).toBeNull();
+    expect(parseClipboardGraph('{"nodes":[{"id":"a"}],"edges":[]}')).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+import type { EconEdgeData, EconNodeData, GraphData } from '../models/types';
+import { renameFormulaVariables } from '../engine/formula';
+
+type Position = { x: number; y: number };
+
+export const extractSubgraph = (graph: GraphData, nodeIds: string[]): GraphData => {
+  const ids = new Set(nodeIds);
+  return {
+    nodes: graph.nodes.filter((node) => ids.has(node.id)),
+    edges: graph.edges.filter((edge) => ids.has(edge.source) && ids.has(edge.target)),
+  };
+};
+
+export const parseClipboardGraph = (text: string): GraphData | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const graph = parsed as Partial<GraphData> | null;
+  if (!graph || !Array.isArray(graph.nodes) || !Array.isArray(graph.edges)) {
+    return null;
+  }
+  const isValid =
+    graph.nodes.every((node) => typeof node?.id === 'string' && typeof node.kind === 'string') &&
+    graph.edges.every(
+      (edge) => typeof edge?.id === 'string' && typeof edge.source === 'string' && typeof edge.target === 'string',
+    );
+  return isValid && graph.nodes.length > 0 ? { nodes: graph.nodes, edges: graph.edges } : null;
+};
+
+export const getGraphCenter = (nodes: EconNodeData[]): Position | null => {
+  const positions = nodes.flatMap((node) => (node.position ? [node.position] : []));
+  if (positions.length === 0) {
+    return null;
+  }
+  const xs = positions.map((position) => position.x);
+  const ys = positions.map((position) => position.y);
+  return { x: (Math.min(...xs) + Math.max(...xs)) / 2, y: (Math.min(...ys) + Math.max(...ys)) / 2 };
+};
+
+export const createUniqueId = (baseId: string, taken: Set<string>) => {
+  const stem = baseId.replace(/_\d+$/, '');
+  let suffix = 2;
+  while (taken.has(`${stem}_${suffix}`)) {
+    suffix += 1;
+  }
+  const id = `${stem}_${suffix}`;
+  taken.add(id);
+  return id;
+};
+
+// Fresh ids keep the original as a stem so formulas that referenced it stay readable once rewritten.
+export const remapGraphIds = (graph: GraphData, existingIds: Iterable<string>, offset: Position): GraphData => {
+  const taken = new Set(existingIds);
+  graph.nodes.forEach((node) => taken.add(node.id));
+  graph.edges.forEach((edge) => taken.add(edge.id));
+  const nodeIds = new Map(graph.nodes.map((node) => [node.id, createUniqueId(node.id, taken)]));
+  const nodes = graph.nodes.map((node): EconNodeData => {
+    const copy: EconNodeData = { ...structuredClone(node), id: nodeIds.get(node.id)! };
+    if (node.formula) {
+      copy.formula = renameFormulaVariables(node.formula, nodeIds);
+    }
+    if (node.position) {
+      copy.position = { x: node.position.x + offset.x, y: node.position.y + offset.y };
+    }
+    return copy;
+  });
+  const edges = graph.edges
+    .filter((edge) => nodeIds.has(edge.source) && nodeIds.has(edge.target))
+    .map(
+      (edge): EconEdgeData => ({
+        ...edge,
+        id: createUniqueId(edge.id, taken),
+        source: nodeIds.get(edge.source)!,
+        target: nodeIds.get(edge.target)!,
+      }),
+    );
+  return { nodes, edges };
+};
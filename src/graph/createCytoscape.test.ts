@@ -0,0 +1,54 @@
+import cytoscape from 'cytoscape';
+import { describe, expect, it } from 'vitest';
+import type { EconNodeData, GraphData } from '../models/types';
+import { resolveSimulation } from '../engine/calendar';
+import { computeGraph } from '../engine/computeGraph';
+import { runMonteCarlo } from '../engine/monteCarlo';
+import demo from '../demo/coffeeToHouse.json';
+import { applyComputeResults, readThemePalette, relabelNodes } from './createCytoscape';
+
+const graph = demo as GraphData;
+const simulation = resolveSimulation({ horizonMonths: 120 });
+
+const createComputedCy = () => {
+  const cy = cytoscape({
+    headless: true,
+    elements: {
+      nodes: graph.nodes.map((node) => ({ data: { ...node } })),
+      edges: graph.edges.map((edge) => ({ data: { ...edge } })),
+    },
+  });
+  const result = computeGraph(graph.nodes, graph.edges, { months: simulation.horizonMonths });
+  applyComputeResults(cy, result, 1, readThemePalette(), simulation, null, null);
+  return { cy, result };
+};
+
+describe('relabelNodes', () => {
+  it('keeps computed values when a Monte Carlo result arrives after a compute', () => {
+    const { cy, result } = createComputedCy();
+    const before = cy.nodes().map((node) => ({ ...(node.data() as EconNodeData) }));
+    const nodes = graph.nodes.map((node) =>
+      node.id === 'houseFund'
+        ? { ...node, distributions: { interestRateAnnual: { kind: 'normal' as const, mean: 0.03, stdDev: 0.02 } } }
+        : node,
+    );
+    const monteCarlo = runMonteCarlo(nodes, graph.edges, { runs: 20, seed: 1, months: simulation.horizonMonths });
+
+    relabelNodes(cy, result.errors, 1, readThemePalette(), simulation, monteCarlo, null);
+
+    before.forEach((node) => {
+      const element = cy.getElementById(node.id);
+      expect(element.data('computedValue')).toBe(node.computedValue);
+      expect(element.data('timeseries')).toEqual(node.timeseries);
+      expect(element.data('portOverlay')).toBe(node.portOverlay);
+    });
+    const houseFund = cy.getElementById('houseFund');
+    expect(houseFund.data('displayLabel')).toContain('$169786 by Dec 2034');
+    expect(houseFund.data('monteCarlo')).toBeDefined();
+
+    relabelNodes(cy, result.errors, 1, readThemePalette(), simulation, null, null);
+
+    expect(houseFund.data('displayLabel')).toContain('$169786 by Dec 2034');
+    expect(houseFund.data('monteCarlo')).toBeUndefined();
+  });
+});
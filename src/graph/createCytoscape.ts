@@ -1,19 +1,64 @@
-import cytoscape, { type Core, type NodeSingular } from 'cytoscape';
-import type { EconEdgeData, EconNodeData, GraphComputeResult, GraphData, NodeKind } from '../models/types';
-import { computeGraph } from '../engine/computeGraph';
+import cytoscape, { type Core, type EdgeSingular, type NodeSingular } from 'cytoscape';
+import type {
+  ComparisonOperator,
+  EconEdgeData,
+  EconNodeData,
+  GraphComputeResult,
+  GraphData,
+  MonteCarloResult,
+  MonteCarloSettings,
+  MonteCarloSummary,
+  NodeKind,
+  Scenario,
+  SimulationSettings,
+} from '../models/types';
+import { createComputeClient } from '../engine/computeClient';
+import { stripComputedFields } from '../engine/computeGraph';
+import type { GoalSeekOptions } from '../engine/goalSeek';
+import { applyScenario, applyScenarioToNode } from '../engine/scenarios';
+import { formatMonthLabel, resolveSimulation } from '../engine/calendar';
+import { CONDITION_INPUT_PORTS, TAX_NET_PORT_ID, TAX_OWED_PORT_ID } from '../models/ports';
+import { extractSubgraph, getGraphCenter, remapGraphIds } from './clipboard';
+import { buildGroupedGraph, buildInlinedGraph } from './grouping';
 
 type GraphCallbacks = {
   onSelectNode?: (node: EconNodeData | null) => void;
   onSelectEdge?: (edge: EconEdgeData | null) => void;
+  onSelectionChange?: (nodeIds: string[]) => void;
   onOpenCustomNode?: (node: EconNodeData) => void;
+  onComputed?: (result: GraphComputeResult) => void;
+  onComputingChange?: (computing: boolean) => void;
+  onComputeError?: (message: string | null) => void;
+  onMonteCarloResult?: (result: MonteCarloResult | null) => void;
+  onHistoryChange?: (state: HistoryState) => void;
+  onGraphRestore?: (data: GraphData) => void;
 };
 
+export type HistoryState = {
+  canUndo: boolean;
+  canRedo: boolean;
+};
+
+type HistoryEntry = {
+  undo: () => void;
+  redo: () => void;
+  mergeKey?: string;
+  time: number;
+};
+
+const HISTORY_LIMIT = 200;
+const HISTORY_MERGE_MS = 1000;
+// A Monte Carlo pass re-runs the whole graph per sample, so it waits for edits to pause instead of following each one.
+const MONTE_CARLO_DELAY_MS = 600;
+const DUPLICATE_OFFSET = 40;
+
 const BASIC_NODE_OPTIONS: { kind: NodeKind; label: string }[] = [
   { kind: 'value', label: 'Value' },
   { kind: 'add', label: 'Add' },
   { kind: 'subtract', label: 'Subtract' },
   { kind: 'multiply', label: 'Multiply' },
   { kind: 'divide', label: 'Divide' },
+  { kind: 'condition', label: 'Condition' },
 ];
 
 const ECON_NODE_OPTIONS: { kind: NodeKind; label: string }[] = [
@@ -21,6 +66,9 @@ const ECON_NODE_OPTIONS: { kind: NodeKind; label: string }[] = [
   { kind: 'expense', label: 'Expense' },
   { kind: 'calc', label: 'Calc' },
   { kind: 'asset', label: 'Asset' },
+  { kind: 'loan', label: 'Loan' },
+  { kind: 'tax', label: 'Tax' },
+  { kind: 'event', label: 'Events' },
   { kind: 'output', label: 'Output' },
   { kind: 'custom', label: 'Custom' },
 ];
@@ -40,6 +88,27 @@ const BASE_PORT_LEFT_X = 68;
 const BASE_PORT_RIGHT_X = 203;
 const BASE_PORT_GLOW_STD = 3;
 const BASE_PORT_TARGET_OFFSET = 68;
+const BASE_CONDITION_PORT_XS = [45, 135, 225];
+const BASE_CONDITION_TARGET_OFFSET = 90;
+const BASE_SPARKLINE_TOP = 88;
+const BASE_SPARKLINE_BOTTOM = 122;
+const BASE_SPARKLINE_INSET = 18;
+const BASE_SPARKLINE_STROKE = 3;
+const BASE_SPARKLINE_TEXT_OFFSET = 20;
+
+const PORT_OVERLAY_SELECTOR =
+  'node[kind = "add"], node[kind = "subtract"], node[kind = "multiply"], node[kind = "divide"], node[kind = "condition"]';
+
+const SPARKLINE_SELECTOR = 'node[kind = "asset"], node[kind = "output"]';
+
+const COMPARISON_SYMBOLS: Record<ComparisonOperator, string> = {
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  eq: '=',
+  neq: '≠',
+};
 
 const scaleValue = (value: number, scale: number) => Math.round(value * scale);
 
@@ -57,14 +126,58 @@ const formatMonthlyLabel = (value?: number) => {
   return `${formatCurrency(value)} / mo`;
 };
 
-const formatOutputValue = (value?: number) => {
+const formatOutputValue = (simulation: SimulationSettings, value?: number) => {
   if (value === undefined) {
     return '--';
   }
   if (value < 0) {
-    return 'Unreachable';
+    return `Unreachable by ${formatMonthLabel(simulation, simulation.horizonMonths - 1)}`;
+  }
+  return formatMonthLabel(simulation, value - 1);
+};
+
+const formatEdgeLabel = (edge: EconEdgeData, delayed: boolean) => {
+  const parts: string[] = [];
+  if (edge.weight !== undefined && edge.weight !== 1) {
+    parts.push(`${Math.round(edge.weight * 1000) / 10}%`);
+  }
+  if (edge.lagMonths !== undefined && Math.round(edge.lagMonths) > 0) {
+    parts.push(`+${Math.round(edge.lagMonths)} mo`);
+  } else if (delayed) {
+    parts.push('+1 mo (loop)');
   }
-  return `${value}`;
+  return parts.join(' · ');
+};
+
+const formatFlowDetails = (node: EconNodeData, simulation: SimulationSettings) => {
+  const parts: string[] = [];
+  if (node.growthRateAnnual) {
+    parts.push(`${node.growthRateAnnual > 0 ? '+' : ''}${Math.round(node.growthRateAnnual * 1000) / 10}%/yr`);
+  }
+  if (node.startMonth !== undefined && node.endMonth !== undefined) {
+    const start = formatMonthLabel(simulation, node.startMonth - 1);
+    const end = formatMonthLabel(simulation, node.endMonth - 1);
+    parts.push(`${start} – ${end}`);
+  } else if (node.startMonth !== undefined) {
+    parts.push(`from ${formatMonthLabel(simulation, node.startMonth - 1)}`);
+  } else if (node.endMonth !== undefined) {
+    parts.push(`until ${formatMonthLabel(simulation, node.endMonth - 1)}`);
+  }
+  return parts.join(' · ');
+};
+
+const formatLoanPayoff = (node: EconNodeData, simulation: SimulationSettings) => {
+  const payoffMonth = node.loanSchedule?.payoffMonth;
+  if (payoffMonth === undefined) {
+    return '--';
+  }
+  if (payoffMonth < 0) {
+    return `Owing after ${formatMonthLabel(simulation, simulation.horizonMonths - 1)}`;
+  }
+  if (payoffMonth === 0) {
+    return 'No balance';
+  }
+  return `Paid off ${formatMonthLabel(simulation, payoffMonth - 1)}`;
 };
 
 const isMathKind = (kind: NodeKind) =>
@@ -102,11 +215,16 @@ type ThemePalette = {
     base: string;
     selected: string;
     hoverGlow: string;
+    cycle: string;
   };
   kinds: {
     expense: { bg: string; border: string };
     calc: { bg: string; border: string };
     asset: { bg: string; border: string };
+    loan: { bg: string; border: string };
+    tax: { bg: string; border: string };
+    event: { bg: string; border: string };
+    condition: { bg: string; border: string };
     output: { bg: string; border: string };
     custom: { bg: string; border: string };
     value: { bg: string; border: string };
@@ -121,12 +239,17 @@ type ThemePalette = {
     text: string;
     glow: string;
   };
+  sparkline: {
+    line: string;
+    target: string;
+  };
 };
 
-const readThemePalette = (): ThemePalette => {
-  const styles = getComputedStyle(document.documentElement);
-  const readVar = (name: string, fallback: string) => styles.getPropertyValue(name).trim() || fallback;
-  const mode = document.documentElement.dataset.theme === 'dark' ? 'dark' : 'light';
+export const readThemePalette = (): ThemePalette => {
+  const root = typeof document === 'undefined' ? null : document.documentElement;
+  const styles = root ? getComputedStyle(root) : null;
+  const readVar = (name: string, fallback: string) => styles?.getPropertyValue(name).trim() || fallback;
+  const mode = root?.dataset.theme === 'dark' ? 'dark' : 'light';
   return {
     mode,
     node: {
@@ -142,6 +265,7 @@ const readThemePalette = (): ThemePalette => {
       base: readVar('--cy-edge', '#94a3b8'),
       selected: readVar('--cy-edge-selected', '#0ea5e9'),
       hoverGlow: readVar('--cy-edge-hover-glow', '#3b82f6'),
+      cycle: readVar('--cy-edge-cycle', '#dc2626'),
     },
     kinds: {
       expense: {
@@ -156,6 +280,22 @@ const readThemePalette = (): ThemePalette => {
         bg: readVar('--cy-node-asset-bg', '#eab308'),
         border: readVar('--cy-node-asset-border', '#a16207'),
       },
+      loan: {
+        bg: readVar('--cy-node-loan-bg', '#6366f1'),
+        border: readVar('--cy-node-loan-border', '#4338ca'),
+      },
+      tax: {
+        bg: readVar('--cy-node-tax-bg', '#84cc16'),
+        border: readVar('--cy-node-tax-border', '#4d7c0f'),
+      },
+      event: {
+        bg: readVar('--cy-node-event-bg', '#fb7185'),
+        border: readVar('--cy-node-event-border', '#e11d48'),
+      },
+      condition: {
+        bg: readVar('--cy-node-condition-bg', '#d946ef'),
+        border: readVar('--cy-node-condition-border', '#a21caf'),
+      },
       output: {
         bg: readVar('--cy-node-output-bg', '#f472b6'),
         border: readVar('--cy-node-output-border', '#be185d'),
@@ -191,6 +331,10 @@ const readThemePalette = (): ThemePalette => {
       text: readVar('--cy-port-text', '#0f172a'),
       glow: readVar('--cy-port-glow', '#38bdf8'),
     },
+    sparkline: {
+      line: readVar('--cy-sparkline', '#0f172a'),
+      target: readVar('--cy-sparkline-target', '#dc2626'),
+    },
   };
 };
 
@@ -232,6 +376,14 @@ const getNodeBg = (palette: ThemePalette, kind: NodeKind) => {
       return palette.kinds.calc.bg;
     case 'asset':
       return palette.kinds.asset.bg;
+    case 'loan':
+      return palette.kinds.loan.bg;
+    case 'tax':
+      return palette.kinds.tax.bg;
+    case 'event':
+      return palette.kinds.event.bg;
+    case 'condition':
+      return palette.kinds.condition.bg;
     case 'output':
       return palette.kinds.output.bg;
     case 'custom':
@@ -257,22 +409,31 @@ const getGlowColor = (palette: ThemePalette, kind: NodeKind) => {
   return adjustHex(base, amount);
 };
 
-const buildPortOverlay = (node: EconNodeData, scale: number, palette: ThemePalette) => {
-  const { left, right } = formatMathInputs(node);
+type OverlayPort = {
+  x: number;
+  connected?: boolean;
+  text: string;
+};
+
+const buildInputPortsOverlay = (ports: OverlayPort[], scale: number, palette: ThemePalette) => {
   const width = scaleValue(BASE_PORT_OVERLAY_WIDTH, scale);
   const height = scaleValue(BASE_PORT_OVERLAY_HEIGHT, scale);
-  const leftX = scaleValue(BASE_PORT_LEFT_X, scale);
-  const rightX = scaleValue(BASE_PORT_RIGHT_X, scale);
   const circleY = scaleValue(BASE_PORT_CIRCLE_Y, scale);
   const circleRadius = scaleValue(BASE_PORT_CIRCLE_RADIUS, scale);
   const circleStroke = scaleValue(BASE_PORT_CIRCLE_STROKE, scale);
   const textY = scaleValue(BASE_PORT_TEXT_Y, scale);
   const textSize = scaleValue(BASE_PORT_TEXT_SIZE, scale);
   const glowStd = Math.max(1, scaleValue(BASE_PORT_GLOW_STD, scale));
-  const leftFill = node.input1Connected ? palette.port.fill : 'none';
-  const rightFill = node.input2Connected ? palette.port.fill : 'none';
-  const leftGlow = node.input1Connected ? 'url(#portGlow)' : 'none';
-  const rightGlow = node.input2Connected ? 'url(#portGlow)' : 'none';
+  const circles = ports.map((port) => {
+    const x = scaleValue(port.x, scale);
+    const fill = port.connected ? palette.port.fill : 'none';
+    const glow = port.connected ? 'url(#portGlow)' : 'none';
+    return `<circle cx="${x}" cy="${circleY}" r="${circleRadius}" fill="${fill}" stroke="${palette.port.stroke}" stroke-width="${circleStroke}" filter="${glow}" />`;
+  });
+  const labels = ports.map((port) => {
+    const x = scaleValue(port.x, scale);
+    return `<text x="${x}" y="${textY}" text-anchor="middle" font-size="${textSize}" fill="${palette.port.text}">${port.text}</text>`;
+  });
   const svg = [
     `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
     '<defs>',
@@ -280,20 +441,127 @@ const buildPortOverlay = (node: EconNodeData, scale: number, palette: ThemePalet
     `<feDropShadow dx="0" dy="0" stdDeviation="${glowStd}" flood-color="${palette.port.glow}" flood-opacity="0.9" />`,
     '</filter>',
     '</defs>',
-    `<circle cx="${leftX}" cy="${circleY}" r="${circleRadius}" fill="${leftFill}" stroke="${palette.port.stroke}" stroke-width="${circleStroke}" filter="${leftGlow}" />`,
-    `<circle cx="${rightX}" cy="${circleY}" r="${circleRadius}" fill="${rightFill}" stroke="${palette.port.stroke}" stroke-width="${circleStroke}" filter="${rightGlow}" />`,
-    `<text x="${leftX}" y="${textY}" text-anchor="middle" font-size="${textSize}" fill="${palette.port.text}">${left}</text>`,
-    `<text x="${rightX}" y="${textY}" text-anchor="middle" font-size="${textSize}" fill="${palette.port.text}">${right}</text>`,
+    ...circles,
+    ...labels,
+    '</svg>',
+  ].join('');
+  return `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`;
+};
+
+const buildPortOverlay = (node: EconNodeData, scale: number, palette: ThemePalette) => {
+  const { left, right } = formatMathInputs(node);
+  return buildInputPortsOverlay(
+    [
+      { x: BASE_PORT_LEFT_X, connected: node.input1Connected, text: left },
+      { x: BASE_PORT_RIGHT_X, connected: node.input2Connected, text: right },
+    ],
+    scale,
+    palette,
+  );
+};
+
+const buildConditionOverlay = (node: EconNodeData, scale: number, palette: ThemePalette) => {
+  const values = [node.input1Value, node.input2Value, node.input3Value];
+  const defaults = [undefined, node.thenValue, node.elseValue];
+  const connected = [node.input1Connected, node.input2Connected, node.input3Connected];
+  return buildInputPortsOverlay(
+    BASE_CONDITION_PORT_XS.map((x, index) => ({
+      x,
+      connected: connected[index],
+      text: formatNumberLabel(connected[index] ? values[index] : defaults[index]),
+    })),
+    scale,
+    palette,
+  );
+};
+
+const buildSparklineOverlay = (node: EconNodeData, scale: number, palette: ThemePalette) => {
+  const series = node.timeseries;
+  if (!series || series.length < 2) {
+    return 'none';
+  }
+  const width = scaleValue(BASE_NODE_WIDTH, scale);
+  const height = scaleValue(BASE_NODE_HEIGHT, scale);
+  const top = scaleValue(BASE_SPARKLINE_TOP, scale);
+  const bottom = scaleValue(BASE_SPARKLINE_BOTTOM, scale);
+  const inset = scaleValue(BASE_SPARKLINE_INSET, scale);
+  const stroke = Math.max(1, scaleValue(BASE_SPARKLINE_STROKE, scale));
+  const target = node.kind === 'output' ? node.targetAmount : undefined;
+  const values = target === undefined ? series : [...series, target];
+  const min = Math.min(...values);
+  const span = Math.max(...values) - min || 1;
+  const toX = (month: number) => inset + (month / (series.length - 1)) * (width - inset * 2);
+  const toY = (value: number) => bottom - ((value - min) / span) * (bottom - top);
+  const points = series.map((value, month) => `${toX(month).toFixed(1)},${toY(value).toFixed(1)}`).join(' ');
+  const targetLine =
+    target === undefined
+      ? ''
+      : `<line x1="${inset}" x2="${width - inset}" y1="${toY(target)}" y2="${toY(target)}" stroke="${palette.sparkline.target}" stroke-width="${stroke}" stroke-dasharray="${stroke * 2} ${stroke * 2}" />`;
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    targetLine,
+    `<polyline points="${points}" fill="none" stroke="${palette.sparkline.line}" stroke-width="${stroke}" stroke-linejoin="round" />`,
     '</svg>',
   ].join('');
   return `data:image/svg+xml;utf8,${encodeURIComponent(svg)}`;
 };
 
-const formatNodeLabel = (node: EconNodeData, error?: string) => {
+const buildInputOverlay = (node: EconNodeData, scale: number, palette: ThemePalette) => {
+  if (isMathKind(node.kind)) {
+    return buildPortOverlay(node, scale, palette);
+  }
+  if (node.kind === 'condition') {
+    return buildConditionOverlay(node, scale, palette);
+  }
+  if (node.kind === 'asset' || node.kind === 'output') {
+    return buildSparklineOverlay(node, scale, palette);
+  }
+  return undefined;
+};
+
+const formatMonteCarloBand = (node: EconNodeData, monteCarlo: MonteCarloSummary) => {
+  const format = node.kind === 'asset' ? formatCurrency : formatNumberLabel;
+  return `P10 ${format(monteCarlo.p10)} · P90 ${format(monteCarlo.p90)}`;
+};
+
+const formatReachProbability = (node: EconNodeData, simulation: SimulationSettings, probability: number) => {
+  const deadline = Math.min(node.targetMonth ?? simulation.horizonMonths, simulation.horizonMonths);
+  return `${Math.round(probability * 100)}% chance by ${formatMonthLabel(simulation, deadline - 1)}`;
+};
+
+const summarizeMonteCarlo = (
+  result: MonteCarloResult | null,
+  node: EconNodeData,
+  simulation: SimulationSettings,
+): MonteCarloSummary | undefined => {
+  const nodeResult = result?.nodes[node.id];
+  if (!nodeResult) {
+    return undefined;
+  }
+  const reach = nodeResult.reachProbability;
+  const deadline = Math.min(node.targetMonth ?? simulation.horizonMonths, reach?.length ?? 0);
+  return {
+    ...nodeResult.summary,
+    reachProbability: reach && deadline > 0 ? reach[deadline - 1] : undefined,
+    failedRuns: nodeResult.failedRuns,
+  };
+};
+
+const formatNodeLabel = (
+  node: EconNodeData,
+  simulation: SimulationSettings,
+  error?: string,
+  monteCarlo?: MonteCarloSummary,
+) => {
   let suffix = '';
   switch (node.kind) {
     case 'income':
-    case 'expense':
+    case 'expense': {
+      const details = formatFlowDetails(node, simulation);
+      const monthly = formatMonthlyLabel(node.computedValue);
+      suffix = details ? `${monthly}\n${details}` : monthly;
+      break;
+    }
     case 'calc':
     case 'custom':
       suffix = formatMonthlyLabel(node.computedValue);
@@ -305,15 +573,44 @@ const formatNodeLabel = (node: EconNodeData, error?: string) => {
     case 'divide':
       suffix = formatNumberLabel(node.computedValue);
       break;
-    case 'asset':
-      suffix = formatCurrency(node.computedValue ?? 0);
+    case 'condition': {
+      const symbol = COMPARISON_SYMBOLS[node.comparison ?? 'gte'];
+      suffix = `if ${symbol} ${formatNumberLabel(node.threshold ?? 0)}\n${formatNumberLabel(node.computedValue)}`;
+      break;
+    }
+    case 'asset': {
+      const horizonEnd = formatMonthLabel(simulation, simulation.horizonMonths - 1);
+      suffix = `${formatCurrency(node.computedValue ?? 0)} by ${horizonEnd}`;
+      break;
+    }
+    case 'loan':
+      suffix = `${formatMonthlyLabel(node.computedValue)}\n${formatLoanPayoff(node, simulation)}`;
+      break;
+    case 'tax':
+      suffix = [
+        `Net ${formatMonthlyLabel(node.outputValues?.[TAX_NET_PORT_ID])}`,
+        `Tax ${formatMonthlyLabel(node.outputValues?.[TAX_OWED_PORT_ID])}`,
+      ].join('\n');
+      break;
+    case 'event': {
+      const series = node.timeseries ?? [];
+      const count = series.filter((value) => value !== 0).length;
+      const total = series.reduce((sum, value) => sum + value, 0);
+      suffix = `${count} ${count === 1 ? 'payment' : 'payments'} · ${formatCurrency(total)} total`;
       break;
+    }
     case 'output':
-      suffix = formatOutputValue(node.computedValue);
+      suffix =
+        monteCarlo?.reachProbability !== undefined
+          ? formatReachProbability(node, simulation, monteCarlo.reachProbability)
+          : formatOutputValue(simulation, node.computedValue);
       break;
     default:
       break;
   }
+  if (monteCarlo && node.kind !== 'output') {
+    suffix = `${suffix}\n${formatMonteCarloBand(node, monteCarlo)}`;
+  }
 
   const base = `${node.label}\n${suffix}`;
   if (error) {
@@ -322,19 +619,27 @@ const formatNodeLabel = (node: EconNodeData, error?: string) => {
   return base;
 };
 
-const graphDataFromCy = (cy: Core, nodeScale: number): GraphData => ({
-  nodes: cy.nodes().map((node) => {
-    const { displayLabel, portOverlay, ...data } = node.data() as EconNodeData & {
-      displayLabel?: string;
-      portOverlay?: string;
-    };
-    return { ...data, position: node.position() };
-  }),
-  edges: cy.edges().map((edge) => {
-    const data = edge.data() as EconEdgeData;
-    return { ...data };
-  }),
+const labelledDataFromElement = (node: NodeSingular): EconNodeData => {
+  const { displayLabel, portOverlay, glowColor, ...data } = node.data() as EconNodeData & {
+    displayLabel?: string;
+    portOverlay?: string;
+    glowColor?: string;
+  };
+  return data;
+};
+
+const nodeDataFromElement = (node: NodeSingular): EconNodeData => stripComputedFields(labelledDataFromElement(node));
+
+const edgeDataFromElement = (edge: EdgeSingular): EconEdgeData => {
+  const { displayLabel, ...data } = edge.data() as EconEdgeData & { displayLabel?: string };
+  return { ...data };
+};
+
+const graphDataFromCy = (cy: Core, nodeScale: number, simulation: SimulationSettings): GraphData => ({
+  nodes: cy.nodes().map((node) => ({ ...nodeDataFromElement(node), position: node.position() })),
+  edges: cy.edges().map((edge) => edgeDataFromElement(edge)),
   nodeScale,
+  simulation,
 });
 
 const hasValidPosition = (position?: { x: number; y: number }) =>
@@ -360,27 +665,68 @@ const hasMeaningfulPositions = (nodes: EconNodeData[]) => {
 const toCyNodeElement = (node: EconNodeData) =>
   hasValidPosition(node.position) ? { data: node, position: node.position } : { data: node };
 
-const applyComputeResults = (cy: Core, result: GraphComputeResult, scale: number, palette: ThemePalette) => {
+export const applyComputeResults = (
+  cy: Core,
+  result: GraphComputeResult,
+  scale: number,
+  palette: ThemePalette,
+  simulation: SimulationSettings,
+  monteCarloResult: MonteCarloResult | null,
+  scenario: Scenario | null,
+) => {
   result.nodes.forEach((node) => {
     const element = cy.getElementById(node.id);
     if (element) {
-      const error = result.errors[node.id];
-      const portOverlay = isMathKind(node.kind) ? buildPortOverlay(node, scale, palette) : undefined;
+      // Labels show the scenario's values, but the element keeps its baseline fields.
+      const overrides = scenario?.overrides[node.id] ?? {};
+      const baseline = Object.fromEntries(
+        Object.keys(overrides).map((field) => [field, element.data(field) as number | undefined]),
+      );
+      const error = result.errors[node.id] ?? monteCarloResult?.errors[node.id];
+      const portOverlay = buildInputOverlay(node, scale, palette);
       const glowColor = getGlowColor(palette, node.kind);
+      const monteCarlo = summarizeMonteCarlo(monteCarloResult, node, simulation);
       element.data({
         ...node,
-        displayLabel: formatNodeLabel(node, error),
+        ...baseline,
+        displayLabel: formatNodeLabel(node, simulation, error, monteCarlo),
         portOverlay,
         glowColor,
+        monteCarlo,
       });
     }
   });
 };
 
-const recompute = (cy: Core, scale: number, palette: ThemePalette) => {
-  const graphData = graphDataFromCy(cy, scale);
-  const result = computeGraph(graphData.nodes, graphData.edges);
-  applyComputeResults(cy, result, scale, palette);
+// Elements keep the values of the last compute, so labels can be redrawn (e.g. for a Monte Carlo result) without one.
+export const relabelNodes = (
+  cy: Core,
+  errors: Record<string, string>,
+  scale: number,
+  palette: ThemePalette,
+  simulation: SimulationSettings,
+  monteCarloResult: MonteCarloResult | null,
+  scenario: Scenario | null,
+) => {
+  const nodes = cy.nodes().map((node) => applyScenarioToNode(labelledDataFromElement(node), scenario));
+  applyComputeResults(cy, { nodes, errors }, scale, palette, simulation, monteCarloResult, scenario);
+};
+
+const applyCycleHighlights = (cy: Core, result: GraphComputeResult) => {
+  const cycleEdgeIds = new Set((result.cycles ?? []).flatMap((cycle) => cycle.edgeIds));
+  cy.edges().forEach((edge) => {
+    edge.toggleClass('cycle', cycleEdgeIds.has(edge.id()));
+  });
+};
+
+const applyEdgeLabels = (cy: Core, result: GraphComputeResult) => {
+  const delayedEdgeIds = new Set(result.delayedEdgeIds ?? []);
+  cy.edges().forEach((edge) => {
+    const displayLabel = formatEdgeLabel(edge.data() as EconEdgeData, delayedEdgeIds.has(edge.id()));
+    if (edge.data('displayLabel') !== displayLabel) {
+      edge.data('displayLabel', displayLabel);
+    }
+  });
 };
 
 const buildStyles = (palette: ThemePalette) => [
@@ -448,6 +794,20 @@ const buildStyles = (palette: ThemePalette) => [
       'curve-style': 'bezier',
       'z-index': 10,
       'z-compound-depth': 'top',
+      label: 'data(displayLabel)',
+      color: palette.edge.selected,
+      'font-size': 16,
+      'text-rotation': 'autorotate',
+      'text-margin-y': -12,
+    },
+  },
+  {
+    selector: 'edge.cycle',
+    style: {
+      width: 3,
+      'line-color': palette.edge.cycle,
+      'target-arrow-color': palette.edge.cycle,
+      color: palette.edge.cycle,
     },
   },
   {
@@ -472,7 +832,7 @@ const buildStyles = (palette: ThemePalette) => [
     },
   },
   {
-    selector: 'node[kind = "add"], node[kind = "subtract"], node[kind = "multiply"], node[kind = "divide"]',
+    selector: PORT_OVERLAY_SELECTOR,
     style: {
       'background-image': 'data(portOverlay)',
       'background-fit': 'none',
@@ -482,6 +842,18 @@ const buildStyles = (palette: ThemePalette) => [
       'background-position-y': 0,
     },
   },
+  {
+    selector: SPARKLINE_SELECTOR,
+    style: {
+      'background-image': 'data(portOverlay)',
+      'background-fit': 'none',
+      'background-width': BASE_NODE_WIDTH,
+      'background-height': BASE_NODE_HEIGHT,
+      'background-position-x': 0,
+      'background-position-y': 0,
+      'text-margin-y': -BASE_SPARKLINE_TEXT_OFFSET,
+    },
+  },
   {
     selector: 'edge[targetPort = "1"], edge[targetPort = "left"]',
     style: {
@@ -494,8 +866,14 @@ const buildStyles = (palette: ThemePalette) => [
       'target-endpoint': `${BASE_PORT_TARGET_OFFSET} -${BASE_PORT_TARGET_OFFSET}`,
     },
   },
+  ...CONDITION_INPUT_PORTS.map((port, index) => ({
+    selector: `edge[targetPort = "${port.id}"]`,
+    style: {
+      'target-endpoint': `${(index - 1) * BASE_CONDITION_TARGET_OFFSET} -${BASE_PORT_TARGET_OFFSET}`,
+    },
+  })),
   {
-    selector: 'node[kind = "add"], node[kind = "subtract"], node[kind = "multiply"], node[kind = "divide"]',
+    selector: PORT_OVERLAY_SELECTOR,
     style: {
       'text-valign': 'center',
       'text-margin-y': 0,
@@ -522,6 +900,34 @@ const buildStyles = (palette: ThemePalette) => [
       'border-color': palette.kinds.asset.border,
     },
   },
+  {
+    selector: 'node[kind = "loan"]',
+    style: {
+      'background-color': palette.kinds.loan.bg,
+      'border-color': palette.kinds.loan.border,
+    },
+  },
+  {
+    selector: 'node[kind = "tax"]',
+    style: {
+      'background-color': palette.kinds.tax.bg,
+      'border-color': palette.kinds.tax.border,
+    },
+  },
+  {
+    selector: 'node[kind = "event"]',
+    style: {
+      'background-color': palette.kinds.event.bg,
+      'border-color': palette.kinds.event.border,
+    },
+  },
+  {
+    selector: 'node[kind = "condition"]',
+    style: {
+      'background-color': palette.kinds.condition.bg,
+      'border-color': palette.kinds.condition.border,
+    },
+  },
   {
     selector: 'node[kind = "output"]',
     style: {
@@ -588,6 +994,7 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
       edges: graphData.edges.map((edge) => ({ data: edge })),
     },
     style: buildStyles(themePalette),
+    boxSelectionEnabled: true,
     layout: hasInitialPositions
       ? { name: 'preset' }
       : {
@@ -598,6 +1005,327 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
   });
 
   let nodeScale = 1;
+  let simulation = resolveSimulation(graphData.simulation);
+  const engine = createComputeClient({ months: simulation.horizonMonths }, callbacks.onComputingChange);
+  const initialData = graphDataFromCy(cy, nodeScale, simulation);
+  engine.load(initialData.nodes, initialData.edges);
+
+  let latestErrors: Record<string, string> = {};
+  let monteCarloSettings: MonteCarloSettings | null = null;
+  let monteCarloResult: MonteCarloResult | null = null;
+  let activeScenario: Scenario | null = null;
+
+  const toEngineNode = (node: NodeSingular) => applyScenarioToNode(nodeDataFromElement(node), activeScenario);
+
+  const analysisData = () => {
+    const data = graphDataFromCy(cy, nodeScale, simulation);
+    return { nodes: applyScenario(data.nodes, activeScenario), edges: data.edges };
+  };
+
+  const applyMonteCarloLabels = () => {
+    relabelNodes(cy, latestErrors, nodeScale, themePalette, simulation, monteCarloResult, activeScenario);
+    callbacks.onMonteCarloResult?.(monteCarloResult);
+  };
+
+  let monteCarloTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const runMonteCarlo = () => {
+    if (monteCarloTimer) {
+      clearTimeout(monteCarloTimer);
+      monteCarloTimer = null;
+    }
+    if (!monteCarloSettings) {
+      return;
+    }
+    engine
+      .runMonteCarlo({
+        ...analysisData(),
+        options: { ...monteCarloSettings, months: simulation.horizonMonths },
+      })
+      .then((result) => {
+        if (!result || !monteCarloSettings) {
+          return;
+        }
+        monteCarloResult = result;
+        applyMonteCarloLabels();
+      })
+      .catch((error: Error) => callbacks.onComputeError?.(`Monte Carlo failed: ${error.message}`));
+  };
+
+  const scheduleMonteCarlo = () => {
+    if (!monteCarloSettings) {
+      return;
+    }
+    if (monteCarloTimer) {
+      clearTimeout(monteCarloTimer);
+    }
+    monteCarloTimer = setTimeout(runMonteCarlo, MONTE_CARLO_DELAY_MS);
+  };
+
+  const recompute = (full = false) => {
+    engine
+      .compute(full)
+      .then((result) => {
+        if (!result) {
+          return;
+        }
+        latestErrors = result.errors;
+        applyComputeResults(cy, result, nodeScale, themePalette, simulation, monteCarloResult, activeScenario);
+        applyEdgeLabels(cy, result);
+        applyCycleHighlights(cy, result);
+        callbacks.onComputeError?.(null);
+        callbacks.onComputed?.(result);
+        scheduleMonteCarlo();
+      })
+      .catch((error: Error) => callbacks.onComputeError?.(`Compute failed: ${error.message}`));
+  };
+
+  const runSensitivity = (targetId: string, percent: number) =>
+    engine.runSensitivity({
+      ...analysisData(),
+      options: { targetId, percent, months: simulation.horizonMonths },
+    });
+
+  const runGoalSeek = (options: Omit<GoalSeekOptions, 'months'>) =>
+    engine.runGoalSeek({
+      ...analysisData(),
+      options: { ...options, months: simulation.horizonMonths },
+    });
+
+  const compareScenarios = (scenarios: Scenario[]) => {
+    const data = graphDataFromCy(cy, nodeScale, simulation);
+    return engine.compareScenarios({
+      nodes: data.nodes,
+      edges: data.edges,
+      options: { scenarios, months: simulation.horizonMonths },
+    });
+  };
+
+  const setScenario = (scenario: Scenario | null) => {
+    const affectedIds = new Set([
+      ...Object.keys(activeScenario?.overrides ?? {}),
+      ...Object.keys(scenario?.overrides ?? {}),
+    ]);
+    activeScenario = scenario;
+    affectedIds.forEach((nodeId) => {
+      const node = cy.getElementById(nodeId);
+      if (node.nonempty()) {
+        engine.updateNode(toEngineNode(node));
+      }
+    });
+    recompute();
+  };
+
+  const setMonteCarlo = (settings: MonteCarloSettings | null) => {
+    monteCarloSettings = settings;
+    if (settings) {
+      runMonteCarlo();
+      return;
+    }
+    monteCarloResult = null;
+    applyMonteCarloLabels();
+  };
+
+  let past: HistoryEntry[] = [];
+  let future: HistoryEntry[] = [];
+  const historyScopes: { past: HistoryEntry[]; future: HistoryEntry[] }[] = [];
+  let isReplaying = false;
+  let pendingBatch: HistoryEntry[] | null = null;
+
+  const notifyHistory = () => callbacks.onHistoryChange?.({ canUndo: past.length > 0, canRedo: future.length > 0 });
+
+  // Consecutive entries with the same merge key (e.g. keystrokes in one field) collapse into one step.
+  const recordHistory = (entry: Omit<HistoryEntry, 'time'>) => {
+    if (isReplaying) {
+      return;
+    }
+    const time = Date.now();
+    if (pendingBatch) {
+      pendingBatch.push({ ...entry, time });
+      return;
+    }
+    const last = past[past.length - 1];
+    if (entry.mergeKey && last?.mergeKey === entry.mergeKey && time - last.time < HISTORY_MERGE_MS) {
+      past[past.length - 1] = { ...entry, undo: last.undo, time };
+    } else {
+      past = [...past, { ...entry, time }].slice(-HISTORY_LIMIT);
+    }
+    future = [];
+    notifyHistory();
+  };
+
+  const recordBatch = (run: () => void, mergeKey?: string) => {
+    const entries: HistoryEntry[] = [];
+    pendingBatch = entries;
+    try {
+      run();
+    } finally {
+      pendingBatch = null;
+    }
+    if (entries.length > 0) {
+      recordHistory({
+        mergeKey,
+        undo: () => [...entries].reverse().forEach((entry) => entry.undo()),
+        redo: () => entries.forEach((entry) => entry.redo()),
+      });
+    }
+  };
+
+  const replay = (entry: HistoryEntry, action: 'undo' | 'redo') => {
+    isReplaying = true;
+    try {
+      entry[action]();
+    } finally {
+      isReplaying = false;
+    }
+  };
+
+  const undo = () => {
+    const entry = past.pop();
+    if (!entry) {
+      return;
+    }
+    replay(entry, 'undo');
+    future.push(entry);
+    notifyHistory();
+  };
+
+  const redo = () => {
+    const entry = future.pop();
+    if (!entry) {
+      return;
+    }
+    replay(entry, 'redo');
+    past.push(entry);
+    notifyHistory();
+  };
+
+  const pushHistoryScope = () => {
+    historyScopes.push({ past, future });
+    past = [];
+    future = [];
+    notifyHistory();
+  };
+
+  const popHistoryScope = () => {
+    const scope = historyScopes.pop();
+    past = scope?.past ?? [];
+    future = scope?.future ?? [];
+    notifyHistory();
+  };
+
+  const snapshotNode = (node: NodeSingular): EconNodeData => ({
+    ...nodeDataFromElement(node),
+    position: { ...node.position() },
+  });
+
+  const restoreNodeData = (nodeId: string, data: EconNodeData) => {
+    const node = cy.getElementById(nodeId);
+    if (node.empty()) {
+      return;
+    }
+    const { position, ...fields } = data;
+    const stale = Object.keys(nodeDataFromElement(node)).filter((key) => !(key in fields));
+    if (stale.length > 0) {
+      node.removeData(stale.join(' '));
+    }
+    node.data(fields);
+    engine.updateNode(toEngineNode(node));
+    recompute();
+  };
+
+  const restoreEdgeData = (edgeId: string, data: EconEdgeData) => {
+    const edge = cy.getElementById(edgeId);
+    if (edge.empty()) {
+      return;
+    }
+    const stale = Object.keys(edgeDataFromElement(edge)).filter((key) => !(key in data));
+    if (stale.length > 0) {
+      edge.removeData(stale.join(' '));
+    }
+    edge.data(data);
+    engine.updateEdge(edgeDataFromElement(edge));
+    recompute();
+  };
+
+  const addElements = (nodes: EconNodeData[], edges: EconEdgeData[]) => {
+    cy.add(nodes.map((node) => toCyNodeElement(node)));
+    cy.add(edges.map((edge) => ({ data: edge })));
+    recompute();
+  };
+
+  const removeElements = (nodeIds: string[], edgeIds: string[]) => {
+    edgeIds.forEach((edgeId) => cy.getElementById(edgeId).remove());
+    nodeIds.forEach((nodeId) => cy.getElementById(nodeId).remove());
+    recompute();
+  };
+
+  const recordAddition = (nodeIds: string[], edgeIds: string[]) => {
+    const nodes = nodeIds.map((nodeId) => snapshotNode(cy.getElementById(nodeId)));
+    const edges = edgeIds.map((edgeId) => edgeDataFromElement(cy.getElementById(edgeId)));
+    recordHistory({
+      undo: () => removeElements(nodeIds, edgeIds),
+      redo: () => addElements(nodes, edges),
+    });
+  };
+
+  const recordRemoval = (nodes: EconNodeData[], edges: EconEdgeData[]) => {
+    const nodeIds = nodes.map((node) => node.id);
+    const edgeIds = edges.map((edge) => edge.id);
+    recordHistory({
+      undo: () => addElements(nodes, edges),
+      redo: () => removeElements(nodeIds, edgeIds),
+    });
+  };
+
+  const applyPositions = (positions: Map<string, { x: number; y: number }>) => {
+    positions.forEach((position, nodeId) => cy.getElementById(nodeId).position(position));
+  };
+
+  let dragStart: Map<string, { x: number; y: number }> | null = null;
+
+  cy.on('grab', 'node', () => {
+    dragStart ??= new Map(cy.nodes().map((node) => [node.id(), { ...node.position() }]));
+  });
+
+  cy.on('free', 'node', () => {
+    const start = dragStart;
+    dragStart = null;
+    if (!start) {
+      return;
+    }
+    const before = new Map<string, { x: number; y: number }>();
+    const after = new Map<string, { x: number; y: number }>();
+    cy.nodes().forEach((node) => {
+      const previous = start.get(node.id());
+      const position = node.position();
+      if (previous && (previous.x !== position.x || previous.y !== position.y)) {
+        before.set(node.id(), previous);
+        after.set(node.id(), { ...position });
+      }
+    });
+    if (after.size > 0) {
+      recordHistory({ undo: () => applyPositions(before), redo: () => applyPositions(after) });
+    }
+  });
+
+  cy.on('add', 'node', (event) => {
+    engine.updateNode(toEngineNode(event.target));
+  });
+
+  let pointerPosition: { x: number; y: number } | null = null;
+
+  cy.on('mousemove', (event) => {
+    pointerPosition = event.position;
+  });
+
+  container.addEventListener('mouseleave', () => {
+    pointerPosition = null;
+  });
+
+  cy.on('remove', 'node', (event) => {
+    engine.removeNode(event.target.id());
+  });
 
   const applyNodeScale = (scale: number) => {
     const width = scaleValue(BASE_NODE_WIDTH, scale);
@@ -605,7 +1333,9 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
     const fontSize = scaleValue(BASE_NODE_FONT_SIZE, scale);
     const textMaxWidth = scaleValue(BASE_TEXT_MAX_WIDTH, scale);
     const offset = scaleValue(BASE_PORT_TARGET_OFFSET, scale);
-    cy.style()
+    const conditionOffset = scaleValue(BASE_CONDITION_TARGET_OFFSET, scale);
+    const style = cy.style();
+    style
       .selector('node')
       .style({
         width,
@@ -613,10 +1343,16 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
         'font-size': fontSize,
         'text-max-width': `${textMaxWidth}px`,
       })
-      .selector('node[kind = "add"], node[kind = "subtract"], node[kind = "multiply"], node[kind = "divide"]')
+      .selector(PORT_OVERLAY_SELECTOR)
+      .style({
+        'background-width': width,
+        'background-height': height,
+      })
+      .selector(SPARKLINE_SELECTOR)
       .style({
         'background-width': width,
         'background-height': height,
+        'text-margin-y': -scaleValue(BASE_SPARKLINE_TEXT_OFFSET, scale),
       })
       .selector('edge[targetPort = "1"], edge[targetPort = "left"]')
       .style({
@@ -625,17 +1361,28 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
       .selector('edge[targetPort = "2"], edge[targetPort = "right"]')
       .style({
         'target-endpoint': `${offset} -${offset}`,
-      })
-      .update();
+      });
+    CONDITION_INPUT_PORTS.forEach((port, index) => {
+      style.selector(`edge[targetPort = "${port.id}"]`).style({
+        'target-endpoint': `${(index - 1) * conditionOffset} -${offset}`,
+      });
+    });
+    style.update();
   };
 
   const setNodeScale = (scale: number) => {
     nodeScale = Math.max(0.1, scale);
     applyNodeScale(nodeScale);
-    recompute(cy, nodeScale, themePalette);
+    recompute(true);
   };
 
-  recompute(cy, nodeScale, themePalette);
+  const setSimulation = (settings: SimulationSettings) => {
+    simulation = resolveSimulation(settings);
+    engine.setMonths(simulation.horizonMonths);
+    recompute(true);
+  };
+
+  recompute();
 
   const updateFocusDimming = () => {
     const hasFocused = cy.nodes(':selected, .hovered').length > 0;
@@ -647,18 +1394,27 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
     cy.nodes(':selected, .hovered').removeClass('dimmed');
   };
 
-  cy.on('select', 'node', (event) => {
+  // Multi-selections are reported through onSelectionChange; onSelectNode only carries a lone selected node.
+  const emitSelectedNode = () => {
+    const selected = cy.nodes(':selected');
+    callbacks.onSelectNode?.(selected.length === 1 ? { ...(selected.first().data() as EconNodeData) } : null);
+  };
+
+  cy.on('select', 'node', () => {
     cy.edges(':selected').unselect();
-    const node = event.target.data() as EconNodeData;
-    callbacks.onSelectNode?.({ ...node });
+    emitSelectedNode();
     updateFocusDimming();
   });
 
   cy.on('unselect', 'node', () => {
-    callbacks.onSelectNode?.(null);
+    emitSelectedNode();
     updateFocusDimming();
   });
 
+  cy.on('select unselect remove', 'node', () => {
+    callbacks.onSelectionChange?.(cy.nodes(':selected').map((node) => node.id()));
+  });
+
   cy.on('dbltap', 'node', (event) => {
     const node = event.target.data() as EconNodeData;
     if (node.kind !== 'custom' || !node.custom) {
@@ -720,6 +1476,19 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
     if (kind === 'value') {
       node.baseValue = 0;
     }
+    if (kind === 'loan') {
+      node.principal = 0;
+      node.interestRateAnnual = 0;
+      node.termMonths = 360;
+      node.extraPayment = 0;
+    }
+    if (kind === 'event') {
+      node.events = [];
+    }
+    if (kind === 'tax') {
+      node.taxBrackets = [{ threshold: 0, rate: 0.1 }];
+      node.standardDeduction = 0;
+    }
     if (kind === 'add' || kind === 'subtract') {
       node.leftValue = 0;
       node.rightValue = 0;
@@ -728,6 +1497,12 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
       node.leftValue = 1;
       node.rightValue = 1;
     }
+    if (kind === 'condition') {
+      node.comparison = 'gte';
+      node.threshold = 0;
+      node.thenValue = 0;
+      node.elseValue = 0;
+    }
     if (kind === 'custom') {
       const inputPortId = 'in-1';
       const outputPortId = 'out-1';
@@ -766,7 +1541,8 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
       data: node,
       position,
     });
-    recompute(cy, nodeScale, themePalette);
+    recordAddition([id], []);
+    recompute();
     cy.getElementById(id)?.select();
   };
 
@@ -838,7 +1614,8 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
             kind: 'flow',
           },
         });
-        recompute(cy, nodeScale, themePalette);
+        recordAddition([], [edgeId]);
+        recompute();
         hideEdgePortMenu();
       });
       menu.appendChild(button);
@@ -934,6 +1711,11 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
       ]);
       return;
     }
+    if (targetData.kind === 'condition') {
+      pendingEdgeSource = selectedNode;
+      showEdgePortMenu(event.renderedPosition, targetNode, 'Select Input', CONDITION_INPUT_PORTS);
+      return;
+    }
     if (targetData.kind === 'custom') {
       const inputs = targetData.custom?.inputs ?? [];
       if (inputs.length > 0) {
@@ -957,11 +1739,17 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
         kind: 'flow',
       },
     });
-    recompute(cy, nodeScale, themePalette);
+    recordAddition([], [edgeId]);
+    recompute();
   });
 
-  cy.on('remove add', 'edge', () => {
-    recompute(cy, nodeScale, themePalette);
+  cy.on('remove add', 'edge', (event) => {
+    if (event.type === 'add') {
+      engine.updateEdge(edgeDataFromElement(event.target));
+    } else {
+      engine.removeEdge(event.target.id());
+    }
+    recompute();
   });
 
   const handleGlobalPointerDown = (event: PointerEvent) => {
@@ -990,12 +1778,29 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
     if (!node) {
       return;
     }
+    const before = nodeDataFromElement(node);
     const current = node.data() as EconNodeData;
     node.data({
       ...current,
       ...data,
     });
-    recompute(cy, nodeScale, themePalette);
+    const after = nodeDataFromElement(node);
+    recordHistory({
+      mergeKey: `node:${nodeId}:${Object.keys(data).sort().join(',')}`,
+      undo: () => restoreNodeData(nodeId, before),
+      redo: () => restoreNodeData(nodeId, after),
+    });
+    engine.updateNode(toEngineNode(node));
+    recompute();
+  };
+
+  const updateNodesData = (updates: { nodeId: string; data: Partial<EconNodeData> }[]) => {
+    const nodeIds = updates.map((update) => update.nodeId).join(',');
+    const keys = [...new Set(updates.flatMap((update) => Object.keys(update.data)))].sort().join(',');
+    recordBatch(
+      () => updates.forEach((update) => updateNodeData(update.nodeId, update.data)),
+      `nodes:${nodeIds}:${keys}`,
+    );
   };
 
   const updateEdgeData = (edgeId: string, data: Partial<EconEdgeData>) => {
@@ -1003,22 +1808,44 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
     if (!edge) {
       return;
     }
+    const before = edgeDataFromElement(edge);
     const current = edge.data() as EconEdgeData;
     edge.data({
       ...current,
       ...data,
     });
-    recompute(cy, nodeScale, themePalette);
+    const after = edgeDataFromElement(edge);
+    recordHistory({
+      mergeKey: `edge:${edgeId}:${Object.keys(data).sort().join(',')}`,
+      undo: () => restoreEdgeData(edgeId, before),
+      redo: () => restoreEdgeData(edgeId, after),
+    });
+    engine.updateEdge(edgeDataFromElement(edge));
+    recompute();
+  };
+
+  const replaceElements = (nodes: EconNodeData[], edges: EconEdgeData[]) => {
+    cy.elements().remove();
+    addElements(nodes, edges);
+  };
+
+  const recordReplacement = (next: GraphData) => {
+    const previous = graphDataFromCy(cy, nodeScale, simulation);
+    recordHistory({
+      undo: () => replaceElements(previous.nodes, previous.edges),
+      redo: () => replaceElements(next.nodes, next.edges),
+    });
   };
 
-  const importGraph = (data: GraphData) => {
+  const loadGraph = (data: GraphData) => {
     if (data.nodeScale !== undefined) {
       setNodeScale(data.nodeScale);
     }
-    cy.elements().remove();
-    cy.add(data.nodes.map((node) => toCyNodeElement(node)));
-    cy.add(data.edges.map((edge) => ({ data: edge })));
-    recompute(cy, nodeScale, themePalette);
+    if (data.simulation) {
+      simulation = resolveSimulation(data.simulation);
+      engine.setMonths(simulation.horizonMonths);
+    }
+    replaceElements(data.nodes, data.edges);
     const hasPositions = hasMeaningfulPositions(data.nodes);
     if (hasPositions) {
       cy.layout({ name: 'preset' }).run();
@@ -1030,6 +1857,53 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
     }
   };
 
+  // `previous` lets the caller include settings it owns (scenarios, pins) so undo can hand them back.
+  const importGraph = (data: GraphData, options: { recordHistory?: boolean; previous?: GraphData } = {}) => {
+    if (!(options.recordHistory ?? true)) {
+      loadGraph(data);
+      return;
+    }
+    const previous = options.previous ?? graphDataFromCy(cy, nodeScale, simulation);
+    loadGraph(data);
+    // Redo replays the laid-out result rather than running the layout again.
+    const next = { ...data, ...graphDataFromCy(cy, nodeScale, simulation) };
+    const restore = (graph: GraphData) => {
+      loadGraph(graph);
+      callbacks.onGraphRestore?.(graph);
+    };
+    recordHistory({ undo: () => restore(previous), redo: () => restore(next) });
+  };
+
+  const copySelection = (): GraphData | null => {
+    const nodeIds = cy.nodes(':selected').map((node) => node.id());
+    if (nodeIds.length === 0) {
+      return null;
+    }
+    return extractSubgraph(graphDataFromCy(cy, nodeScale, simulation), nodeIds);
+  };
+
+  // Pastes centered on the pointer when it is over the canvas, otherwise offset from the copied positions.
+  const pasteGraph = (data: GraphData, anchor = pointerPosition) => {
+    const center = getGraphCenter(data.nodes);
+    const offset =
+      anchor && center
+        ? { x: anchor.x - center.x, y: anchor.y - center.y }
+        : { x: DUPLICATE_OFFSET, y: DUPLICATE_OFFSET };
+    const pasted = remapGraphIds(data, cy.elements().map((element) => element.id()), offset);
+    addElements(pasted.nodes, pasted.edges);
+    const nodeIds = pasted.nodes.map((node) => node.id);
+    recordAddition(nodeIds, pasted.edges.map((edge) => edge.id));
+    cy.elements(':selected').unselect();
+    nodeIds.forEach((nodeId) => cy.getElementById(nodeId).select());
+  };
+
+  const duplicateSelection = () => {
+    const data = copySelection();
+    if (data) {
+      pasteGraph(data, null);
+    }
+  };
+
   const deleteNode = (nodeId: string) => {
     const node = cy.getElementById(nodeId);
     if (!node) {
@@ -1041,11 +1915,38 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
     }
     // Remove all edges connected to this node
     const connectedEdges = cy.edges(`[source = "${nodeId}"], [target = "${nodeId}"]`);
+    recordRemoval([snapshotNode(node)], connectedEdges.map((edge) => edgeDataFromElement(edge)));
     connectedEdges.remove();
     // Remove the node itself
     node.remove();
     // Recompute after a brief delay to ensure DOM updates are complete
-    setTimeout(() => recompute(cy, nodeScale, themePalette), 0);
+    setTimeout(() => recompute(), 0);
+  };
+
+  const groupSelection = () => {
+    const nodeIds = cy.nodes(':selected').map((node) => node.id());
+    if (nodeIds.length === 0) {
+      return;
+    }
+    const customId = `node-${Date.now()}-${nodeSequence}`;
+    nodeSequence += 1;
+    const next = buildGroupedGraph(graphDataFromCy(cy, nodeScale, simulation), nodeIds, customId);
+    recordReplacement(next);
+    replaceElements(next.nodes, next.edges);
+    cy.getElementById(customId).select();
+  };
+
+  const inlineCustomNode = (nodeId: string) => {
+    const current = graphDataFromCy(cy, nodeScale, simulation);
+    const next = buildInlinedGraph(current, nodeId);
+    const existingIds = new Set(current.nodes.map((node) => node.id));
+    recordReplacement(next);
+    replaceElements(next.nodes, next.edges);
+    next.nodes.filter((node) => !existingIds.has(node.id)).forEach((node) => cy.getElementById(node.id).select());
+  };
+
+  const deleteNodes = (nodeIds: string[]) => {
+    recordBatch(() => nodeIds.forEach((nodeId) => deleteNode(nodeId)));
   };
 
   const deleteEdge = (edgeId: string) => {
@@ -1056,11 +1957,12 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
     if (edge.selected()) {
       edge.unselect();
     }
+    recordRemoval([], [edgeDataFromElement(edge)]);
     edge.remove();
-    setTimeout(() => recompute(cy, nodeScale, themePalette), 0);
+    setTimeout(() => recompute(), 0);
   };
 
-  const exportGraph = (): GraphData => graphDataFromCy(cy, nodeScale);
+  const exportGraph = (): GraphData => graphDataFromCy(cy, nodeScale, simulation);
 
   if (typeof MutationObserver !== 'undefined') {
     const observer = new MutationObserver((mutations) => {
@@ -1070,7 +1972,7 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
       themePalette = readThemePalette();
       cy.style().fromJson(buildStyles(themePalette)).update();
       applyNodeScale(nodeScale);
-      recompute(cy, nodeScale, themePalette);
+      recompute(true);
     });
     observer.observe(document.documentElement, { attributes: true, attributeFilter: ['data-theme'] });
   }
@@ -1078,11 +1980,28 @@ export const createCytoscape = (container: HTMLDivElement, graphData: GraphData,
   return {
     cy,
     updateNodeData,
+    updateNodesData,
     updateEdgeData,
     deleteNode,
+    deleteNodes,
     deleteEdge,
     importGraph,
     exportGraph,
     setNodeScale,
+    setSimulation,
+    setMonteCarlo,
+    runSensitivity,
+    runGoalSeek,
+    compareScenarios,
+    setScenario,
+    copySelection,
+    pasteGraph,
+    duplicateSelection,
+    groupSelection,
+    inlineCustomNode,
+    undo,
+    redo,
+    pushHistoryScope,
+    popHistoryScope,
   };
 };
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { GraphData } from '../models/types';
+import { computeGraph } from '../engine/computeGraph';
+import demo from '../demo/coffeeToHouse.json';
+import { buildGroupedGraph, buildInlinedGraph } from './grouping';
+
+const graph = demo as GraphData;
+const selection = ['monthlySavings', 'savingsAdjuster'];
+
+const computeValues = ({ nodes, edges }: GraphData) => {
+  const result = computeGraph(nodes, edges, { months: 120 });
+  expect(result.errors).toEqual({});
+  return Object.fromEntries(result.nodes.map((node) => [node.id, node.computedValue]));
+};
+
+describe('buildGroupedGraph', () => {
+  it('wraps the selection in a custom node that computes the same values', () => {
+    const grouped = buildGroupedGraph(graph, selection, 'group');
+
+    const custom = grouped.nodes.find((node) => node.id === 'group')?.custom;
+    expect(custom?.inputs.map((port) => port.label)).toEqual(['Net Income', 'Fixed Expenses', 'Coffee ($5/day)']);
+    expect(custom?.internalGraph.nodes.find((node) => node.id === 'monthlySavings')?.formula).toBe(
+      'netIncome - fixedExpenses - coffee',
+    );
+    const values = computeValues(grouped);
+    expect(values.houseFund).toBeCloseTo(169785.82, 2);
+    expect(values.monthlySavings).toBeUndefined();
+  });
+});
+
+describe('buildInlinedGraph', () => {
+  it('restores a grouped selection with its original ids and values', () => {
+    const inlined = buildInlinedGraph(buildGroupedGraph(graph, selection, 'group'), 'group');
+
+    expect(inlined.nodes.map((node) => node.id).sort()).toEqual(graph.nodes.map((node) => node.id).sort());
+    const values = computeValues(inlined);
+    expect(values.houseFund).toBeCloseTo(169785.82, 2);
+    expect(values.monthsToDownPayment).toBe(47);
+  });
+
+  it('connects outer nodes straight to the inner ones and renames their formula references', () => {
+    const inlined = buildInlinedGraph(graph, 'savingsAdjuster');
+
+    expect(inlined.nodes.find((node) => node.id === 'customOutput')?.formula).toBe('monthlySavings * 0.9');
+    expect(computeValues(inlined).houseFund).toBeCloseTo(169785.82, 2);
+    expect(() => buildInlinedGraph(graph, 'houseFund')).toThrow('houseFund is not a custom node');
+  });
+});
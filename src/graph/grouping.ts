@@ -0,0 +1,277 @@
+import type { CustomNodeConfig, EconEdgeData, EconNodeData, GraphData } from '../models/types';
+import { renameFormulaVariables } from '../engine/formula';
+import { createUniqueId, getGraphCenter } from './clipboard';
+
+type Position = { x: number; y: number };
+
+const PROXY_SPACING = 160;
+
+const claimId = (baseId: string, taken: Set<string>) => {
+  if (taken.has(baseId)) {
+    return createUniqueId(baseId, taken);
+  }
+  taken.add(baseId);
+  return baseId;
+};
+
+const getPortKey = (nodeId: string, portId?: string) => `${nodeId}:${portId ?? ''}`;
+
+const compactEdge = (edge: EconEdgeData) =>
+  Object.fromEntries(Object.entries(edge).filter(([, value]) => value !== undefined)) as EconEdgeData;
+
+const combineEdges = (outer: EconEdgeData, inner: EconEdgeData) => {
+  const weight = (outer.weight ?? 1) * (inner.weight ?? 1);
+  const lagMonths = (outer.lagMonths ?? 0) + (inner.lagMonths ?? 0);
+  return { weight: weight === 1 ? undefined : weight, lagMonths: lagMonths === 0 ? undefined : lagMonths };
+};
+
+const getHorizontalBounds = (nodes: EconNodeData[], center: Position) => {
+  const xs = nodes.flatMap((node) => (node.position ? [node.position.x] : []));
+  return xs.length > 0 ? { minX: Math.min(...xs), maxX: Math.max(...xs) } : { minX: center.x, maxX: center.x };
+};
+
+const stackedPosition = (x: number, center: Position, index: number, count: number) => ({
+  x,
+  y: center.y + (index - (count - 1) / 2) * (PROXY_SPACING / 2),
+});
+
+// Every edge crossing into the selection becomes an input port fed through a value node named after the
+// external source, so calc formulas inside keep resolving. Edges leaving it become output ports.
+export const buildGroupedGraph = (graph: GraphData, nodeIds: string[], customId: string): GraphData => {
+  const selected = new Set(nodeIds);
+  const nodesById = new Map(graph.nodes.map((node) => [node.id, node]));
+  const internalNodes = graph.nodes.filter((node) => selected.has(node.id));
+  const internalEdges = graph.edges.filter((edge) => selected.has(edge.source) && selected.has(edge.target));
+  const incoming = graph.edges.filter((edge) => !selected.has(edge.source) && selected.has(edge.target));
+  const outgoing = graph.edges.filter((edge) => selected.has(edge.source) && !selected.has(edge.target));
+  const taken = new Set([...internalNodes.map((node) => node.id), ...internalEdges.map((edge) => edge.id)]);
+  const center = getGraphCenter(internalNodes) ?? { x: 0, y: 0 };
+  const { minX, maxX } = getHorizontalBounds(internalNodes, center);
+
+  const config: CustomNodeConfig = {
+    inputs: [],
+    outputs: [],
+    internalGraph: { nodes: [...internalNodes], edges: [...internalEdges] },
+    inputBindings: {},
+    outputBindings: {},
+  };
+  const inputProxies: EconNodeData[] = [];
+  const outputProxies: EconNodeData[] = [];
+  const externalEdges: EconEdgeData[] = [];
+  const inputPorts = new Map<string, string>();
+  const outputPorts = new Map<string, string>();
+
+  incoming.forEach((edge) => {
+    const key = getPortKey(edge.source, edge.sourcePort);
+    let portId = inputPorts.get(key);
+    if (!portId) {
+      portId = `in-${config.inputs.length + 1}`;
+      inputPorts.set(key, portId);
+      const sourceLabel = nodesById.get(edge.source)?.label ?? edge.source;
+      const label = edge.sourcePort ? `${sourceLabel} (${edge.sourcePort})` : sourceLabel;
+      const proxyId = claimId(edge.source, taken);
+      config.inputs.push({ id: portId, label });
+      config.inputBindings[portId] = proxyId;
+      inputProxies.push({ id: proxyId, label, kind: 'value', baseValue: 0 });
+      externalEdges.push(
+        compactEdge({
+          id: edge.id,
+          source: edge.source,
+          sourcePort: edge.sourcePort,
+          target: customId,
+          targetPort: portId,
+          kind: 'flow',
+        }),
+      );
+    }
+    const relayId = config.inputBindings[portId];
+    config.internalGraph.edges.push(
+      compactEdge({ ...edge, id: claimId(edge.id, taken), source: relayId, sourcePort: undefined }),
+    );
+  });
+
+  const rewiredOutgoing = outgoing.map((edge) => {
+    const key = getPortKey(edge.source, edge.sourcePort);
+    let portId = outputPorts.get(key);
+    if (!portId) {
+      portId = `out-${config.outputs.length + 1}`;
+      outputPorts.set(key, portId);
+      const sourceLabel = nodesById.get(edge.source)?.label ?? edge.source;
+      const label = edge.sourcePort ? `${sourceLabel} (${edge.sourcePort})` : sourceLabel;
+      let boundId = edge.source;
+      // Output bindings read a node's main series, so a specific source port needs a value node to land in.
+      if (edge.sourcePort) {
+        boundId = claimId(`output-${portId}`, taken);
+        outputProxies.push({ id: boundId, label, kind: 'value', baseValue: 0 });
+        config.internalGraph.edges.push({
+          id: claimId(`edge-${edge.source}-${boundId}`, taken),
+          source: edge.source,
+          sourcePort: edge.sourcePort,
+          target: boundId,
+          kind: 'flow',
+        });
+      }
+      config.outputs.push({ id: portId, label });
+      config.outputBindings[portId] = boundId;
+    }
+    return { ...edge, source: customId, sourcePort: portId };
+  });
+
+  if (config.inputs.length === 0) {
+    const proxyId = claimId('internal-input', taken);
+    config.inputs.push({ id: 'in-1', label: 'Input' });
+    config.inputBindings['in-1'] = proxyId;
+    inputProxies.push({ id: proxyId, label: 'Input', kind: 'value', baseValue: 0 });
+  }
+  if (config.outputs.length === 0 && internalNodes.length > 0) {
+    const last = internalNodes[internalNodes.length - 1];
+    config.outputs.push({ id: 'out-1', label: last.label });
+    config.outputBindings['out-1'] = last.id;
+  }
+
+  config.internalGraph.nodes.push(
+    ...inputProxies.map((node, index) => ({
+      ...node,
+      position: stackedPosition(minX - PROXY_SPACING, center, index, inputProxies.length),
+    })),
+    ...outputProxies.map((node, index) => ({
+      ...node,
+      position: stackedPosition(maxX + PROXY_SPACING, center, index, outputProxies.length),
+    })),
+  );
+
+  const customNode: EconNodeData = { id: customId, label: 'Group', kind: 'custom', custom: config, position: center };
+  return {
+    nodes: [...graph.nodes.filter((node) => !selected.has(node.id)), customNode],
+    edges: [
+      ...graph.edges.filter((edge) => !selected.has(edge.source) && !selected.has(edge.target)),
+      ...externalEdges,
+      ...rewiredOutgoing,
+    ],
+  };
+};
+
+// Value nodes that only relay a port are dissolved so the outer nodes connect straight to the inner ones; anything
+// else inside keeps its id unless that id is already used in the parent graph.
+export const buildInlinedGraph = (graph: GraphData, nodeId: string): GraphData => {
+  const customNode = graph.nodes.find((node) => node.id === nodeId);
+  const config = customNode?.kind === 'custom' ? customNode.custom : undefined;
+  if (!customNode || !config) {
+    throw new Error(`${nodeId} is not a custom node`);
+  }
+  const { nodes: innerNodes, edges: innerEdges } = config.internalGraph;
+  const innerById = new Map(innerNodes.map((node) => [node.id, node]));
+  const outerNodes = graph.nodes.filter((node) => node.id !== nodeId);
+  const outerEdges = graph.edges.filter((edge) => edge.source !== nodeId && edge.target !== nodeId);
+  const incoming = graph.edges.filter((edge) => edge.target === nodeId);
+  const outgoing = graph.edges.filter((edge) => edge.source === nodeId);
+  const taken = new Set([...outerNodes.map((node) => node.id), ...outerEdges.map((edge) => edge.id)]);
+  const defaultInputId = config.inputs[0]?.id;
+  const isValueNode = (id: string) => innerById.get(id)?.kind === 'value';
+  const edgesInto = (id: string) => innerEdges.filter((edge) => edge.target === id);
+  const edgesOutOf = (id: string) => innerEdges.filter((edge) => edge.source === id);
+
+  const feeds = new Map<string, EconEdgeData[]>();
+  config.inputs.forEach((port) => {
+    const boundId = config.inputBindings[port.id];
+    const portFeeds = incoming.filter((edge) => (edge.targetPort ?? defaultInputId) === port.id);
+    if (boundId && innerById.has(boundId)) {
+      feeds.set(boundId, [...(feeds.get(boundId) ?? []), ...portFeeds]);
+    }
+  });
+  // A bound node's own series is replaced by its port input, so any bound node nothing inside feeds is a relay.
+  // An unfed relay is only dropped when nothing inside reads it, since it still injects zeros.
+  const inputRelays = new Set(
+    [...feeds].flatMap(([boundId, portFeeds]) => {
+      const isRelay = edgesInto(boundId).length === 0;
+      return isRelay && (portFeeds.length > 0 || edgesOutOf(boundId).length === 0) ? [boundId] : [];
+    }),
+  );
+  const outputRelays = new Map<string, EconEdgeData>();
+  Object.values(config.outputBindings).forEach((boundId) => {
+    const [relayed, ...rest] = edgesInto(boundId);
+    if (isValueNode(boundId) && relayed && rest.length === 0 && edgesOutOf(boundId).length === 0) {
+      outputRelays.set(boundId, relayed);
+    }
+  });
+  const relayedEdges = new Set(outputRelays.values());
+
+  const renames = new Map<string, string>();
+  innerNodes.forEach((node) => {
+    const firstFeed = feeds.get(node.id)?.[0];
+    if (inputRelays.has(node.id)) {
+      if (firstFeed) {
+        renames.set(node.id, firstFeed.source);
+      }
+    } else if (!outputRelays.has(node.id)) {
+      renames.set(node.id, claimId(node.id, taken));
+    }
+  });
+  const rename = (id: string) => renames.get(id) ?? id;
+
+  const innerCenter = getGraphCenter(innerNodes);
+  const anchor = customNode.position;
+  const offset = innerCenter && anchor ? { x: anchor.x - innerCenter.x, y: anchor.y - innerCenter.y } : null;
+  const nodes = innerNodes
+    .filter((node) => !inputRelays.has(node.id) && !outputRelays.has(node.id))
+    .map((node): EconNodeData => {
+      const copy: EconNodeData = { ...node, id: rename(node.id) };
+      if (node.formula) {
+        copy.formula = renameFormulaVariables(node.formula, renames);
+      }
+      if (node.position && offset) {
+        copy.position = { x: node.position.x + offset.x, y: node.position.y + offset.y };
+      }
+      return copy;
+    });
+
+  const edges = innerEdges
+    .filter((edge) => !relayedEdges.has(edge))
+    .flatMap((edge) => {
+      if (!inputRelays.has(edge.source)) {
+        return [{ ...edge, id: claimId(edge.id, taken), source: rename(edge.source), target: rename(edge.target) }];
+      }
+      return (feeds.get(edge.source) ?? []).map((feed) =>
+        compactEdge({
+          id: claimId(edge.id, taken),
+          source: feed.source,
+          sourcePort: feed.sourcePort,
+          target: rename(edge.target),
+          targetPort: edge.targetPort,
+          kind: 'flow',
+          ...combineEdges(feed, edge),
+        }),
+      );
+    });
+
+  feeds.forEach((portFeeds, boundId) => {
+    if (!inputRelays.has(boundId)) {
+      portFeeds.forEach((feed) => {
+        const id = claimId(feed.id, taken);
+        edges.push(compactEdge({ ...feed, id, target: rename(boundId), targetPort: undefined }));
+      });
+    }
+  });
+
+  outgoing.forEach((edge) => {
+    const portIds = edge.sourcePort
+      ? [edge.sourcePort]
+      : config.outputs.length === 1
+        ? [config.outputs[0].id]
+        : config.outputs.map((port) => port.id);
+    portIds.forEach((portId) => {
+      const boundId = config.outputBindings[portId];
+      if (!boundId || !innerById.has(boundId)) {
+        return;
+      }
+      const id = claimId(edge.id, taken);
+      const relayed = outputRelays.get(boundId);
+      const source = relayed
+        ? { source: rename(relayed.source), sourcePort: relayed.sourcePort, ...combineEdges(relayed, edge) }
+        : { source: rename(boundId), sourcePort: undefined };
+      edges.push(compactEdge({ ...edge, id, ...source }));
+    });
+  });
+
+  return { nodes: [...outerNodes, ...nodes], edges: [...outerEdges, ...edges] };
+};
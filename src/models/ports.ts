@@ -0,0 +1,19 @@
+import type { PortDef } from './types';
+
+export const BINARY_PORT_IDS = ['1', '2'];
+
+export const CONDITION_INPUT_PORTS: PortDef[] = [
+  { id: 'condition', label: 'Condition' },
+  { id: 'then', label: 'Then' },
+  { id: 'else', label: 'Else' },
+];
+
+export const CONDITION_PORT_IDS = CONDITION_INPUT_PORTS.map((port) => port.id);
+
+export const TAX_NET_PORT_ID = 'net';
+export const TAX_OWED_PORT_ID = 'tax';
+
+export const TAX_OUTPUT_PORTS: PortDef[] = [
+  { id: TAX_NET_PORT_ID, label: 'Net Income' },
+  { id: TAX_OWED_PORT_ID, label: 'Tax Owed' },
+];
@@ -8,8 +8,13 @@ export type NodeKind =
   | 'divide'
   | 'calc'
   | 'asset'
+  | 'loan'
+  | 'tax'
+  | 'event'
+  | 'condition'
   | 'output'
   | 'custom';
+export type ComparisonOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq';
 export type TimeUnit = 'per_day' | 'per_week' | 'per_month' | 'per_year';
 
 export type PortDef = {
@@ -25,6 +30,140 @@ export type CustomNodeConfig = {
   outputBindings: Record<string, string>;
 };
 
+export type ScheduledEvent = {
+  id: string;
+  label: string;
+  amount: number;
+  month: number;
+  repeatEveryMonths?: number;
+  endMonth?: number;
+};
+
+export type TaxBracket = {
+  threshold: number;
+  rate: number;
+};
+
+export type DistributionKind = 'normal' | 'uniform' | 'triangular' | 'lognormal';
+
+export type Distribution = {
+  kind: DistributionKind;
+  mean?: number;
+  stdDev?: number;
+  min?: number;
+  mode?: number;
+  max?: number;
+};
+
+export type UncertainField =
+  | 'baseValue'
+  | 'growthRateAnnual'
+  | 'leftValue'
+  | 'rightValue'
+  | 'threshold'
+  | 'thenValue'
+  | 'elseValue'
+  | 'interestRateAnnual'
+  | 'principal'
+  | 'extraPayment'
+  | 'standardDeduction'
+  | 'targetAmount';
+
+export type PercentileSummary = {
+  p10: number;
+  p50: number;
+  p90: number;
+};
+
+export type MonteCarloSummary = PercentileSummary & {
+  reachProbability?: number;
+  failedRuns: number;
+};
+
+export type MonteCarloNodeResult = {
+  summary: PercentileSummary;
+  bands?: { p10: number[]; p50: number[]; p90: number[] };
+  reachProbability?: number[];
+  failedRuns: number;
+};
+
+export type MonteCarloSettings = {
+  runs: number;
+  seed: number;
+};
+
+export type MonteCarloResult = MonteCarloSettings & {
+  nodes: Record<string, MonteCarloNodeResult>;
+  errors: Record<string, string>;
+};
+
+export type SensitivityEntry = {
+  nodeId: string;
+  nodeLabel: string;
+  field: UncertainField;
+  baseValue: number;
+  low: number;
+  high: number;
+  error?: string;
+};
+
+export type SensitivityResult = {
+  targetId: string;
+  percent: number;
+  months: number;
+  baseline: number;
+  entries: SensitivityEntry[];
+};
+
+export type ScenarioField = UncertainField | 'startMonth' | 'endMonth';
+
+export type ScenarioOverrides = Partial<Record<ScenarioField, number>>;
+
+export type Scenario = {
+  id: string;
+  name: string;
+  overrides: Partial<Record<string, ScenarioOverrides>>;
+};
+
+export type ScenarioComparison = {
+  months: number;
+  scenarios: { id: string | null; name: string }[];
+  rows: { nodeId: string; label: string; kind: NodeKind; values: (number | null)[] }[];
+};
+
+export type PinnedControl = {
+  id: string;
+  nodeId: string;
+  field: ScenarioField;
+  min: number;
+  max: number;
+  step: number;
+};
+
+export type GoalSeekResult = {
+  status: 'solved' | 'noSolution';
+  targetId: string;
+  targetValue: number;
+  inputNodeId: string;
+  inputField: UncertainField;
+  min: number;
+  max: number;
+  value: number;
+  achieved: number;
+  months: number;
+  iterations: number;
+};
+
+export type LoanSchedule = {
+  payment: number[];
+  interest: number[];
+  principal: number[];
+  balance: number[];
+  scheduledPayment: number;
+  payoffMonth: number;
+  totalInterest: number;
+};
+
 export interface EconNodeData {
   id: string;
   label: string;
@@ -32,18 +171,38 @@ export interface EconNodeData {
   position?: { x: number; y: number };
   baseValue?: number;
   timeUnit?: TimeUnit;
+  growthRateAnnual?: number;
+  startMonth?: number;
+  endMonth?: number;
   formula?: string;
   leftValue?: number;
   rightValue?: number;
   input1Value?: number;
   input2Value?: number;
+  input3Value?: number;
   input1Connected?: boolean;
   input2Connected?: boolean;
+  input3Connected?: boolean;
+  comparison?: ComparisonOperator;
+  threshold?: number;
+  thenValue?: number;
+  elseValue?: number;
   portOverlay?: string;
   interestRateAnnual?: number;
+  principal?: number;
+  termMonths?: number;
+  extraPayment?: number;
+  loanSchedule?: LoanSchedule;
+  taxBrackets?: TaxBracket[];
+  standardDeduction?: number;
+  events?: ScheduledEvent[];
   targetAmount?: number;
+  targetMonth?: number;
+  distributions?: Partial<Record<UncertainField, Distribution>>;
+  monteCarlo?: MonteCarloSummary;
   custom?: CustomNodeConfig;
   computedValue?: number;
+  outputValues?: Record<string, number>;
   timeseries?: number[];
 }
 
@@ -58,13 +217,31 @@ export interface EconEdgeData {
   lagMonths?: number;
 }
 
+export type SimulationSettings = {
+  horizonMonths: number;
+  startMonth: number;
+  startYear: number;
+};
+
 export interface GraphData {
   nodes: EconNodeData[];
   edges: EconEdgeData[];
   nodeScale?: number;
+  simulation?: SimulationSettings;
+  scenarios?: Scenario[];
+  activeScenarioId?: string;
+  pinnedControls?: PinnedControl[];
+}
+
+export interface GraphCycle {
+  nodeIds: string[];
+  edgeIds: string[];
 }
 
 export interface GraphComputeResult {
   nodes: EconNodeData[];
   errors: Record<string, string>;
+  cycles?: GraphCycle[];
+  // Unlagged asset edges inside a feedback loop, which read the asset's previous month to break the loop.
+  delayedEdgeIds?: string[];
 }
@@ -0,0 +1,149 @@
+import type { EconNodeData, NodeKind, TimeUnit } from '../models/types';
+import { getScenarioFields } from '../engine/scenarios';
+import { parseOptionalNumber } from './parseOptionalNumber';
+import { SCENARIO_FIELD_LABELS } from './fieldLabels';
+import { NODE_KIND_GROUPS, TIME_UNIT_OPTIONS, buildKindUpdate } from './nodeKinds';
+
+export type NodeUpdate = {
+  nodeId: string;
+  data: Partial<EconNodeData>;
+};
+
+const KIND_LABELS = new Map(
+  NODE_KIND_GROUPS.flatMap((group) => group.options).map((option) => [option.value, option.label]),
+);
+
+// Returns null when the selected nodes disagree, so a shared "unset" can be told apart from mixed values.
+const getSharedValue = <T,>(nodes: EconNodeData[], read: (node: EconNodeData) => T) => {
+  const first = read(nodes[0]);
+  return nodes.every((node) => read(node) === first) ? { value: first } : null;
+};
+
+const getSharedFields = (nodes: EconNodeData[]) => {
+  const [first, ...rest] = nodes.map((node) => getScenarioFields(node.kind));
+  return first.filter((field) => rest.every((fields) => fields.includes(field)));
+};
+
+type BulkInspectorProps = {
+  nodes: EconNodeData[];
+  onChange: (updates: NodeUpdate[]) => void;
+  onDelete: (nodeIds: string[]) => void;
+  onGroup: () => void;
+};
+
+export const BulkInspector = ({ nodes, onChange, onDelete, onGroup }: BulkInspectorProps) => {
+  const sharedFields = getSharedFields(nodes);
+  const hasTimeUnit = nodes.every((node) => node.kind === 'income' || node.kind === 'expense');
+  const kindCounts = nodes.reduce(
+    (counts, node) => counts.set(node.kind, (counts.get(node.kind) ?? 0) + 1),
+    new Map<NodeKind, number>(),
+  );
+  // Outputs compute a month number rather than an amount, so they stay out of the total.
+  const valued = nodes.filter((node) => node.kind !== 'output' && node.computedValue !== undefined);
+  const total = valued.reduce((sum, node) => sum + (node.computedValue ?? 0), 0);
+  const outputCount = kindCounts.get('output') ?? 0;
+
+  const setAll = (data: Partial<EconNodeData>) => onChange(nodes.map((node) => ({ nodeId: node.id, data })));
+
+  const handleKindChange = (kind: NodeKind) =>
+    onChange(
+      nodes
+        .filter((node) => node.kind !== kind)
+        .map((node) => {
+          const update = buildKindUpdate(kind);
+          if (kind === 'custom' && node.custom) {
+            update.custom = node.custom;
+          }
+          return { nodeId: node.id, data: update };
+        }),
+    );
+
+  return (
+    <div className="panel">
+      <h2>Inspector</h2>
+      <div className="panel-section">
+        <div className="label">Selection</div>
+        <div>{nodes.length} nodes</div>
+        <div>
+          {[...kindCounts].map(([kind, count]) => `${count} ${KIND_LABELS.get(kind) ?? kind}`).join(', ')}
+        </div>
+      </div>
+      <div className="panel-section">
+        <div className="label">{outputCount > 0 ? 'Total Value (excluding outputs)' : 'Total Value'}</div>
+        <div>{valued.length > 0 ? `$${total.toFixed(0)}` : '--'}</div>
+      </div>
+      <label className="panel-section">
+        <span className="label">Change Kind</span>
+        <select value="" onChange={(event) => handleKindChange(event.target.value as NodeKind)}>
+          <option value="" disabled>
+            {getSharedValue(nodes, (node) => KIND_LABELS.get(node.kind))?.value ?? 'Mixed'}
+          </option>
+          {NODE_KIND_GROUPS.map((group) => (
+            <optgroup key={group.label} label={group.label}>
+              {group.options.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      </label>
+      {hasTimeUnit && (
+        <label className="panel-section">
+          <span className="label">Time Unit</span>
+          <select
+            value={getSharedValue(nodes, (node) => node.timeUnit)?.value ?? ''}
+            onChange={(event) => setAll({ timeUnit: event.target.value as TimeUnit })}
+          >
+            <option value="" disabled>
+              Mixed
+            </option>
+            {TIME_UNIT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      {sharedFields.map((field) => {
+        const shared = getSharedValue(nodes, (node) => node[field]);
+        return (
+          <label key={field} className="panel-section">
+            <span className="label">{SCENARIO_FIELD_LABELS[field]}</span>
+            <input
+              type="number"
+              value={shared?.value ?? ''}
+              placeholder={shared ? undefined : 'Mixed'}
+              onChange={(event) => setAll({ [field]: parseOptionalNumber(event.target.value) })}
+            />
+          </label>
+        );
+      })}
+      <div className="panel-section">
+        <button type="button" onClick={onGroup}>
+          Group into Custom Node
+        </button>
+      </div>
+      <div className="panel-section">
+        <button
+          className="delete-button"
+          onClick={() => onDelete(nodes.map((node) => node.id))}
+          style={{
+            backgroundColor: '#dc2626',
+            color: 'white',
+            border: 'none',
+            padding: '12px 24px',
+            borderRadius: '6px',
+            cursor: 'pointer',
+            width: '100%',
+            marginTop: '24px',
+          }}
+        >
+          Delete {nodes.length} Nodes
+        </button>
+      </div>
+    </div>
+  );
+};
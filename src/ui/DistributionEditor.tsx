@@ -0,0 +1,134 @@
+import type { Distribution, DistributionKind, EconNodeData, UncertainField } from '../models/types';
+import { UNCERTAIN_FIELDS_BY_KIND, validateDistribution } from '../engine/monteCarlo';
+import { parseOptionalNumber } from './parseOptionalNumber';
+import { UNCERTAIN_FIELD_LABELS } from './fieldLabels';
+
+const DISTRIBUTION_OPTIONS: { value: DistributionKind; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'uniform', label: 'Uniform' },
+  { value: 'triangular', label: 'Triangular' },
+  { value: 'lognormal', label: 'Lognormal' },
+];
+
+const PARAMETERS: Record<DistributionKind, { key: keyof Omit<Distribution, 'kind'>; label: string }[]> = {
+  normal: [
+    { key: 'mean', label: 'Mean' },
+    { key: 'stdDev', label: 'Std dev' },
+  ],
+  lognormal: [
+    { key: 'mean', label: 'Mean' },
+    { key: 'stdDev', label: 'Std dev' },
+  ],
+  uniform: [
+    { key: 'min', label: 'Min' },
+    { key: 'max', label: 'Max' },
+  ],
+  triangular: [
+    { key: 'min', label: 'Min' },
+    { key: 'mode', label: 'Most likely' },
+    { key: 'max', label: 'Max' },
+  ],
+};
+
+const createDistribution = (kind: DistributionKind, value: number): Distribution => {
+  const spread = Math.abs(value) * 0.1;
+  if (kind === 'uniform') {
+    return { kind, min: value - spread, max: value + spread };
+  }
+  if (kind === 'triangular') {
+    return { kind, min: value - spread, mode: value, max: value + spread };
+  }
+  return { kind, mean: value, stdDev: spread };
+};
+
+type DistributionEditorProps = {
+  node: EconNodeData;
+  onChange: (distributions: EconNodeData['distributions']) => void;
+};
+
+export const DistributionEditor = ({ node, onChange }: DistributionEditorProps) => {
+  const fields = UNCERTAIN_FIELDS_BY_KIND[node.kind] ?? [];
+  if (fields.length === 0) {
+    return null;
+  }
+  const distributions = node.distributions ?? {};
+  const entries = fields.filter((field) => distributions[field]);
+  const available = fields.filter((field) => !distributions[field]);
+
+  const updateField = (field: UncertainField, distribution: Distribution | undefined) => {
+    const next = { ...distributions, [field]: distribution };
+    if (!distribution) {
+      delete next[field];
+    }
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  return (
+    <div className="panel-section">
+      <div className="label">Uncertainty</div>
+      {entries.map((field) => {
+        const distribution = distributions[field]!;
+        const error = validateDistribution(distribution);
+        return (
+          <div key={field} className="event-row">
+            <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+              <span style={{ flex: 1 }}>{UNCERTAIN_FIELD_LABELS[field]}</span>
+              <select
+                aria-label="Distribution"
+                value={distribution.kind}
+                onChange={(event) =>
+                  updateField(
+                    field,
+                    createDistribution(event.target.value as DistributionKind, Number(node[field] ?? 0)),
+                  )
+                }
+              >
+                {DISTRIBUTION_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              <button type="button" onClick={() => updateField(field, undefined)}>
+                Remove
+              </button>
+            </div>
+            {PARAMETERS[distribution.kind].map((parameter) => (
+              <label key={parameter.key} className="event-field">
+                <span>{parameter.label}</span>
+                <input
+                  type="number"
+                  value={distribution[parameter.key] ?? ''}
+                  onChange={(event) =>
+                    updateField(field, { ...distribution, [parameter.key]: parseOptionalNumber(event.target.value) })
+                  }
+                />
+              </label>
+            ))}
+            {error && <div style={{ color: '#dc2626' }}>{error}</div>}
+          </div>
+        );
+      })}
+      {available.length > 0 && (
+        <select
+          aria-label="Add distribution"
+          value=""
+          style={{ marginTop: '12px' }}
+          onChange={(event) => {
+            const field = event.target.value as UncertainField;
+            updateField(field, createDistribution('normal', Number(node[field] ?? 0)));
+          }}
+        >
+          <option value="" disabled>
+            Add distribution…
+          </option>
+          {available.map((field) => (
+            <option key={field} value={field}>
+              {UNCERTAIN_FIELD_LABELS[field]}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
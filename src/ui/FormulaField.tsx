@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from 'react';
+import type React from 'react';
+import { FORMULA_FUNCTIONS, analyzeFormula } from '../engine/formula';
+import type { FormulaDiagnostic } from '../engine/formula';
+
+export type FormulaInput = {
+  id: string;
+  label: string;
+};
+
+type Suggestion = {
+  insert: string;
+  label: string;
+  detail?: string;
+};
+
+type FormulaFieldProps = {
+  value: string;
+  inputs: FormulaInput[];
+  isGraphNode: (nodeId: string) => boolean;
+  onChange: (value: string) => void;
+};
+
+const PREFIX_PATTERN = /[A-Za-z_][A-Za-z0-9_]*$/;
+
+const getPrefixAt = (value: string, caret: number) => value.slice(0, caret).match(PREFIX_PATTERN)?.[0] ?? '';
+
+const describeDiagnostic = (diagnostic: FormulaDiagnostic, isGraphNode: (nodeId: string) => boolean) => {
+  if (diagnostic.identifier && isGraphNode(diagnostic.identifier)) {
+    return `${diagnostic.identifier} is not wired into this node`;
+  }
+  return diagnostic.message;
+};
+
+const buildSuggestions = (inputs: FormulaInput[], prefix: string): Suggestion[] => {
+  const needle = prefix.toLowerCase();
+  const inputSuggestions = inputs
+    .filter((input) => input.id.toLowerCase().startsWith(needle) || input.label.toLowerCase().includes(needle))
+    .filter((input) => input.id !== prefix)
+    .map((input) => ({ insert: input.id, label: input.id, detail: input.label }));
+  if (!prefix) {
+    return inputSuggestions;
+  }
+  const functionSuggestions = FORMULA_FUNCTIONS.filter((name) => name.startsWith(needle)).map((name) => ({
+    insert: `${name}(`,
+    label: `${name}()`,
+  }));
+  return [...inputSuggestions, ...functionSuggestions];
+};
+
+const renderPreview = (value: string, diagnostic: FormulaDiagnostic) => {
+  const start = Math.min(diagnostic.start, value.length);
+  const end = Math.max(diagnostic.end, start + 1);
+  return (
+    <>
+      {value.slice(0, start)}
+      <span className="formula-error-token">{value.slice(start, end) || ' '}</span>
+      {value.slice(end)}
+    </>
+  );
+};
+
+export const FormulaField = ({ value, inputs, isGraphNode, onChange }: FormulaFieldProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const pendingCaretRef = useRef<number | null>(null);
+  const [caret, setCaret] = useState(value.length);
+
+  useEffect(() => {
+    const pending = pendingCaretRef.current;
+    if (pending === null || !inputRef.current) {
+      return;
+    }
+    pendingCaretRef.current = null;
+    inputRef.current.focus();
+    inputRef.current.setSelectionRange(pending, pending);
+    setCaret(pending);
+  }, [value]);
+
+  const diagnostics = analyzeFormula(value, inputs.map((input) => input.id));
+  const prefix = getPrefixAt(value, caret);
+  const suggestions = buildSuggestions(inputs, prefix);
+
+  const trackCaret = (event: React.SyntheticEvent<HTMLInputElement>) => {
+    setCaret(event.currentTarget.selectionStart ?? event.currentTarget.value.length);
+  };
+
+  const applySuggestion = (suggestion: Suggestion) => {
+    const start = caret - prefix.length;
+    const nextValue = `${value.slice(0, start)}${suggestion.insert}${value.slice(caret)}`;
+    pendingCaretRef.current = start + suggestion.insert.length;
+    onChange(nextValue);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Tab' && prefix && suggestions.length > 0) {
+      event.preventDefault();
+      applySuggestion(suggestions[0]);
+    }
+  };
+
+  return (
+    <div className="panel-section">
+      <span className="label">Formula</span>
+      <input
+        ref={inputRef}
+        type="text"
+        value={value}
+        spellCheck={false}
+        onChange={(event) => {
+          trackCaret(event);
+          onChange(event.target.value);
+        }}
+        onSelect={trackCaret}
+        onKeyDown={handleKeyDown}
+      />
+      {value && diagnostics.length > 0 && <div className="formula-preview">{renderPreview(value, diagnostics[0])}</div>}
+      {diagnostics.length > 0 && (
+        <ul className="formula-diagnostics">
+          {diagnostics.map((diagnostic) => (
+            <li key={`${diagnostic.start}-${diagnostic.message}`}>
+              {describeDiagnostic(diagnostic, isGraphNode)}
+              {value && ` (col ${diagnostic.start + 1})`}
+            </li>
+          ))}
+        </ul>
+      )}
+      {suggestions.length > 0 && (
+        <div className="formula-suggestions">
+          {suggestions.map((suggestion) => (
+            <button
+              key={suggestion.insert}
+              type="button"
+              className="formula-suggestion"
+              onMouseDown={(event) => event.preventDefault()}
+              onClick={() => applySuggestion(suggestion)}
+            >
+              <span>{suggestion.label}</span>
+              {suggestion.detail && <span className="formula-suggestion-detail">{suggestion.detail}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
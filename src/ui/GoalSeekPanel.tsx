@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import type { EconNodeData, GoalSeekResult, SimulationSettings, UncertainField } from '../models/types';
+import type { GoalSeekOptions } from '../engine/goalSeek';
+import { UNCERTAIN_FIELDS_BY_KIND } from '../engine/monteCarlo';
+import { formatMonthLabel } from '../engine/calendar';
+import { UNCERTAIN_FIELD_LABELS } from './fieldLabels';
+import { parseOptionalNumber } from './parseOptionalNumber';
+import { getDefaultBounds } from './numericBounds';
+
+type GoalSeekPanelProps = {
+  node: EconNodeData;
+  simulation: SimulationSettings;
+  getNodes: () => EconNodeData[];
+  onRun: (options: Omit<GoalSeekOptions, 'months'>) => Promise<GoalSeekResult | null>;
+  onApply: (nodeId: string, data: Partial<EconNodeData>) => void;
+};
+
+type InputChoice = {
+  nodeId: string;
+  field: UncertainField;
+  label: string;
+  value: number;
+};
+
+const formatNumber = (value: number) => `${Number(value.toFixed(2))}`;
+
+export const GoalSeekPanel = ({ node, simulation, getNodes, onRun, onApply }: GoalSeekPanelProps) => {
+  const [targetValue, setTargetValue] = useState<number | undefined>(
+    node.computedValue !== undefined && node.computedValue >= 0 ? node.computedValue : undefined,
+  );
+  const [inputKey, setInputKey] = useState('');
+  const [min, setMin] = useState<number | undefined>();
+  const [max, setMax] = useState<number | undefined>();
+  const [result, setResult] = useState<GoalSeekResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const choices: InputChoice[] = getNodes()
+    .filter((item) => item.id !== node.id)
+    .flatMap((item) =>
+      (UNCERTAIN_FIELDS_BY_KIND[item.kind] ?? [])
+        .filter((field) => item[field] !== undefined)
+        .map((field) => ({
+          nodeId: item.id,
+          field,
+          label: `${item.label} · ${UNCERTAIN_FIELD_LABELS[field]}`,
+          value: item[field] ?? 0,
+        })),
+    );
+  const choice = choices.find((item) => `${item.nodeId}:${item.field}` === inputKey);
+  const bounds = getDefaultBounds(choice?.value ?? 0);
+  const isOutput = node.kind === 'output';
+
+  const formatAchieved = (value: number, months: number) => {
+    if (!isOutput) {
+      return formatNumber(value);
+    }
+    return value > months ? 'not reached' : `month ${value} (${formatMonthLabel(simulation, value - 1)})`;
+  };
+
+  const handleSolve = () => {
+    if (!choice || targetValue === undefined) {
+      return;
+    }
+    setIsRunning(true);
+    setError(null);
+    setResult(null);
+    onRun({
+      targetId: node.id,
+      targetValue,
+      inputNodeId: choice.nodeId,
+      inputField: choice.field,
+      min: min ?? bounds.min,
+      max: max ?? bounds.max,
+    })
+      .then((next) => setResult(next))
+      .catch((runError: Error) => setError(runError.message))
+      .finally(() => setIsRunning(false));
+  };
+
+  const resultLabel =
+    choices.find((item) => item.nodeId === result?.inputNodeId && item.field === result?.inputField)?.label ??
+    result?.inputField;
+
+  return (
+    <div className="panel-section">
+      <div className="label">Goal Seek</div>
+      <label className="event-field">
+        <span>{isOutput ? 'Desired month number' : 'Desired value'}</span>
+        <input
+          type="number"
+          value={targetValue ?? ''}
+          onChange={(event) => setTargetValue(parseOptionalNumber(event.target.value))}
+        />
+      </label>
+      <label className="event-field">
+        <span>By changing</span>
+        <select
+          value={inputKey}
+          onChange={(event) => {
+            setInputKey(event.target.value);
+            setMin(undefined);
+            setMax(undefined);
+          }}
+        >
+          <option value="" disabled>
+            Choose an input…
+          </option>
+          {choices.map((item) => (
+            <option key={`${item.nodeId}:${item.field}`} value={`${item.nodeId}:${item.field}`}>
+              {item.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {choice && (
+        <div style={{ display: 'flex', gap: '12px' }}>
+          <label className="event-field">
+            <span>Min</span>
+            <input
+              type="number"
+              value={min ?? bounds.min}
+              onChange={(event) => setMin(parseOptionalNumber(event.target.value))}
+            />
+          </label>
+          <label className="event-field">
+            <span>Max</span>
+            <input
+              type="number"
+              value={max ?? bounds.max}
+              onChange={(event) => setMax(parseOptionalNumber(event.target.value))}
+            />
+          </label>
+        </div>
+      )}
+      <button
+        type="button"
+        style={{ marginTop: '12px' }}
+        disabled={!choice || targetValue === undefined || isRunning}
+        onClick={handleSolve}
+      >
+        {isRunning ? 'Solving…' : 'Solve'}
+      </button>
+      {error && <div style={{ color: '#dc2626', marginTop: '12px' }}>{error}</div>}
+      {result && result.status === 'solved' && (
+        <div style={{ marginTop: '12px' }}>
+          <div>
+            {resultLabel} = {formatNumber(result.value)} gives{' '}
+            {formatAchieved(result.achieved, result.months)}
+          </div>
+          <button
+            type="button"
+            style={{ marginTop: '12px' }}
+            onClick={() => onApply(result.inputNodeId, { [result.inputField]: result.value })}
+          >
+            Apply
+          </button>
+        </div>
+      )}
+      {result && result.status === 'noSolution' && (
+        <div style={{ color: '#dc2626', marginTop: '12px' }}>
+          No value between {formatNumber(result.min)} and {formatNumber(result.max)} reaches{' '}
+          {formatAchieved(result.targetValue, result.months)}. Closest: {formatNumber(result.value)} gives{' '}
+          {formatAchieved(result.achieved, result.months)}.
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,36 +1,42 @@
 import { useEffect, useState } from 'react';
 import type React from 'react';
-import type { CustomNodeConfig, EconEdgeData, EconNodeData, NodeKind, PortDef, TimeUnit } from '../models/types';
+import type {
+  ComparisonOperator,
+  CustomNodeConfig,
+  EconEdgeData,
+  EconNodeData,
+  GoalSeekResult,
+  LoanSchedule,
+  NodeKind,
+  PinnedControl,
+  PortDef,
+  ScenarioField,
+  ScheduledEvent,
+  SensitivityResult,
+  SimulationSettings,
+  TaxBracket,
+  TimeUnit,
+} from '../models/types';
+import { CONDITION_INPUT_PORTS, TAX_OUTPUT_PORTS } from '../models/ports';
+import { formatMonthLabel } from '../engine/calendar';
+import type { GoalSeekOptions } from '../engine/goalSeek';
+import { FormulaField } from './FormulaField';
+import { DistributionEditor } from './DistributionEditor';
+import { parseOptionalNumber } from './parseOptionalNumber';
+import { SensitivityPanel } from './SensitivityPanel';
+import { GoalSeekPanel } from './GoalSeekPanel';
+import { PinFieldControl } from './PinFieldControl';
+import { NODE_KIND_GROUPS, TIME_UNIT_OPTIONS, buildKindUpdate } from './nodeKinds';
+import { BulkInspector } from './BulkInspector';
+import type { NodeUpdate } from './BulkInspector';
 
-const TIME_UNIT_OPTIONS: { value: TimeUnit; label: string }[] = [
-  { value: 'per_day', label: 'Per Day' },
-  { value: 'per_week', label: 'Per Week' },
-  { value: 'per_month', label: 'Per Month' },
-  { value: 'per_year', label: 'Per Year' },
-];
-
-const NODE_KIND_GROUPS: { label: string; options: { value: NodeKind; label: string }[] }[] = [
-  {
-    label: 'Basic Math',
-    options: [
-      { value: 'value', label: 'Value' },
-      { value: 'add', label: 'Add' },
-      { value: 'subtract', label: 'Subtract' },
-      { value: 'multiply', label: 'Multiply' },
-      { value: 'divide', label: 'Divide' },
-    ],
-  },
-  {
-    label: 'Economy',
-    options: [
-      { value: 'income', label: 'Income' },
-      { value: 'expense', label: 'Expense' },
-      { value: 'calc', label: 'Calc' },
-      { value: 'asset', label: 'Asset' },
-      { value: 'output', label: 'Output' },
-      { value: 'custom', label: 'Custom' },
-    ],
-  },
+const COMPARISON_OPTIONS: { value: ComparisonOperator; label: string }[] = [
+  { value: 'gt', label: '>' },
+  { value: 'gte', label: '≥' },
+  { value: 'lt', label: '<' },
+  { value: 'lte', label: '≤' },
+  { value: 'eq', label: '=' },
+  { value: 'neq', label: '≠' },
 ];
 
 const BINARY_PORT_OPTIONS: PortDef[] = [
@@ -38,14 +44,74 @@ const BINARY_PORT_OPTIONS: PortDef[] = [
   { id: '2', label: '2' },
 ];
 
+const formatMoney = (value: number) => `$${value.toFixed(0)}`;
+
+const formatComputedValue = (node: EconNodeData, simulation: SimulationSettings) => {
+  if (node.computedValue === undefined) {
+    return '--';
+  }
+  if (node.kind === 'output') {
+    if (node.computedValue < 0) {
+      return `Unreachable by ${formatMonthLabel(simulation, simulation.horizonMonths - 1)}`;
+    }
+    return `${formatMonthLabel(simulation, node.computedValue - 1)} (month ${node.computedValue})`;
+  }
+  if (node.kind === 'asset') {
+    return `${formatMoney(node.computedValue)} by ${formatMonthLabel(simulation, simulation.horizonMonths - 1)}`;
+  }
+  return `${node.computedValue}`;
+};
+
+const formatMonteCarloValue = (node: EconNodeData, value: number) =>
+  node.kind === 'asset' ? formatMoney(value) : `${Number(value.toFixed(2))}`;
+
+const formatLoanPayoff = (schedule: LoanSchedule, simulation: SimulationSettings) => {
+  if (schedule.payoffMonth === 0) {
+    return 'No balance';
+  }
+  if (schedule.payoffMonth < 0) {
+    const remaining = schedule.balance[schedule.balance.length - 1] ?? 0;
+    return `Not within horizon (${formatMoney(remaining)} owing)`;
+  }
+  return formatMonthLabel(simulation, schedule.payoffMonth - 1);
+};
+
+const buildYearlyLoanRows = (schedule: LoanSchedule, simulation: SimulationSettings) => {
+  const rows: { label: string; interest: number; principal: number; balance: number }[] = [];
+  const lastMonth = schedule.payoffMonth > 0 ? schedule.payoffMonth : schedule.balance.length;
+  for (let start = 0; start < lastMonth; start += 12) {
+    const end = Math.min(start + 12, lastMonth);
+    rows.push({
+      label: formatMonthLabel(simulation, end - 1),
+      interest: schedule.interest.slice(start, end).reduce((total, value) => total + value, 0),
+      principal: schedule.principal.slice(start, end).reduce((total, value) => total + value, 0),
+      balance: schedule.balance[end - 1] ?? 0,
+    });
+  }
+  return rows;
+};
+
 type InspectorPanelProps = {
   node: EconNodeData | null;
   edge: EconEdgeData | null;
   onChange: (nodeId: string, data: Partial<EconNodeData>) => void;
   onChangeEdge: (edgeId: string, data: Partial<EconEdgeData>) => void;
   getNodeById: (nodeId: string) => EconNodeData | null;
+  getIncomingNodes: (nodeId: string) => EconNodeData[];
+  simulation: SimulationSettings;
+  onRunSensitivity: (nodeId: string, percent: number) => Promise<SensitivityResult | null>;
+  getNodes: () => EconNodeData[];
+  onRunGoalSeek: (options: Omit<GoalSeekOptions, 'months'>) => Promise<GoalSeekResult | null>;
+  onApplyGoalSeek: (nodeId: string, data: Partial<EconNodeData>) => void;
+  pinnedControls: PinnedControl[];
+  onPinField: (nodeId: string, field: ScenarioField) => void;
   onDeleteNode: (nodeId: string) => void;
   onDeleteEdge: (edgeId: string) => void;
+  selectedNodes: EconNodeData[];
+  onBulkChange: (updates: NodeUpdate[]) => void;
+  onDeleteNodes: (nodeIds: string[]) => void;
+  onGroupSelection: () => void;
+  onInlineCustomNode: (nodeId: string) => void;
 };
 
 export const InspectorPanel = ({
@@ -54,8 +120,21 @@ export const InspectorPanel = ({
   onChange,
   onChangeEdge,
   getNodeById,
+  getIncomingNodes,
+  simulation,
+  onRunSensitivity,
+  getNodes,
+  onRunGoalSeek,
+  onApplyGoalSeek,
+  pinnedControls,
+  onPinField,
   onDeleteNode,
   onDeleteEdge,
+  selectedNodes,
+  onBulkChange,
+  onDeleteNodes,
+  onGroupSelection,
+  onInlineCustomNode,
 }: InspectorPanelProps) => {
   const [internalGraphText, setInternalGraphText] = useState('');
   const [internalGraphError, setInternalGraphError] = useState<string | null>(null);
@@ -69,6 +148,17 @@ export const InspectorPanel = ({
     setInternalGraphError(null);
   }, [node?.id, node?.kind]);
 
+  if (selectedNodes.length > 1) {
+    return (
+      <BulkInspector
+        nodes={selectedNodes}
+        onChange={onBulkChange}
+        onDelete={onDeleteNodes}
+        onGroup={onGroupSelection}
+      />
+    );
+  }
+
   if (!node && !edge) {
     return (
       <div className="panel">
@@ -81,7 +171,12 @@ export const InspectorPanel = ({
   if (!node && edge) {
     const sourceNode = getNodeById(edge.source);
     const targetNode = getNodeById(edge.target);
-    const sourceOutputs = sourceNode?.kind === 'custom' ? sourceNode.custom?.outputs ?? [] : [];
+    const sourceOutputs =
+      sourceNode?.kind === 'custom'
+        ? sourceNode.custom?.outputs ?? []
+        : sourceNode?.kind === 'tax'
+          ? TAX_OUTPUT_PORTS
+          : [];
     const targetInputs = targetNode?.kind === 'custom' ? targetNode.custom?.inputs ?? [] : [];
     const targetMathPorts =
       targetNode?.kind === 'add' ||
@@ -90,8 +185,13 @@ export const InspectorPanel = ({
       targetNode?.kind === 'divide'
         ? BINARY_PORT_OPTIONS
         : [];
-    const targetPortOptions = targetNode?.kind === 'custom' ? targetInputs : targetMathPorts;
-    const showTargetPorts = targetNode?.kind === 'custom' || targetMathPorts.length > 0;
+    const targetPortOptions =
+      targetNode?.kind === 'custom'
+        ? targetInputs
+        : targetNode?.kind === 'condition'
+          ? CONDITION_INPUT_PORTS
+          : targetMathPorts;
+    const showTargetPorts = targetNode?.kind === 'custom' || targetPortOptions.length > 0;
     const targetPortValue =
       edge.targetPort === 'left'
         ? '1'
@@ -112,7 +212,7 @@ export const InspectorPanel = ({
           <div className="label">Type</div>
           <div>{edge.kind}</div>
         </div>
-        {sourceNode?.kind === 'custom' && (
+        {sourceOutputs.length > 0 && (
           <label className="panel-section">
             <span className="label">Source Port</span>
             <select
@@ -148,6 +248,25 @@ export const InspectorPanel = ({
             </select>
           </label>
         )}
+        <label className="panel-section">
+          <span className="label">Weight</span>
+          <input
+            type="number"
+            step="0.05"
+            value={edge.weight ?? ''}
+            onChange={(event) => onChangeEdge(edge.id, { weight: parseOptionalNumber(event.target.value) })}
+          />
+        </label>
+        <label className="panel-section">
+          <span className="label">Lag (Months)</span>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={edge.lagMonths ?? ''}
+            onChange={(event) => onChangeEdge(edge.id, { lagMonths: parseOptionalNumber(event.target.value) })}
+          />
+        </label>
         <div className="panel-section">
           <button
             className="delete-button"
@@ -181,6 +300,11 @@ export const InspectorPanel = ({
     onChange(activeNode.id, { [field]: Number.isNaN(value) ? undefined : value } as Partial<EconNodeData>);
   };
 
+  const handleOptionalNumberChange =
+    (field: keyof EconNodeData) => (event: React.ChangeEvent<HTMLInputElement>) => {
+      onChange(activeNode.id, { [field]: parseOptionalNumber(event.target.value) } as Partial<EconNodeData>);
+    };
+
   const handleTextChange = (field: keyof EconNodeData) => (event: React.ChangeEvent<HTMLInputElement>) => {
     onChange(activeNode.id, { [field]: event.target.value } as Partial<EconNodeData>);
   };
@@ -193,84 +317,6 @@ export const InspectorPanel = ({
     onChange(activeNode.id, { custom: config });
   };
 
-  const createDefaultCustomConfig = (): CustomNodeConfig => {
-    const inputPortId = 'in-1';
-    const outputPortId = 'out-1';
-    const internalInputId = 'internal-input';
-    const internalOutputId = 'internal-output';
-
-    return {
-      inputs: [{ id: inputPortId, label: 'Input' }],
-      outputs: [{ id: outputPortId, label: 'Output' }],
-      internalGraph: {
-        nodes: [
-          {
-            id: internalInputId,
-            label: 'Input',
-            kind: 'value',
-            baseValue: 0,
-          },
-          {
-            id: internalOutputId,
-            label: 'Output',
-            kind: 'value',
-            baseValue: 0,
-          },
-        ],
-        edges: [],
-      },
-      inputBindings: {
-        [inputPortId]: internalInputId,
-      },
-      outputBindings: {
-        [outputPortId]: internalOutputId,
-      },
-    };
-  };
-
-  const buildKindUpdate = (kind: NodeKind): Partial<EconNodeData> => {
-    const reset: Partial<EconNodeData> = {
-      kind,
-      baseValue: undefined,
-      timeUnit: undefined,
-      leftValue: undefined,
-      rightValue: undefined,
-      formula: undefined,
-      interestRateAnnual: undefined,
-      targetAmount: undefined,
-      custom: undefined,
-      input1Value: undefined,
-      input2Value: undefined,
-      input1Connected: undefined,
-      input2Connected: undefined,
-      timeseries: undefined,
-    };
-
-    switch (kind) {
-      case 'income':
-      case 'expense':
-        return { ...reset, baseValue: 0, timeUnit: 'per_month' };
-      case 'value':
-        return { ...reset, baseValue: 0 };
-      case 'add':
-      case 'subtract':
-        return { ...reset, leftValue: 0, rightValue: 0 };
-      case 'multiply':
-      case 'divide':
-        return { ...reset, leftValue: 1, rightValue: 1 };
-      case 'calc':
-        return { ...reset, formula: '' };
-      case 'asset':
-        return { ...reset, interestRateAnnual: 0 };
-      case 'output':
-        return { ...reset, targetAmount: 0 };
-      case 'custom':
-        return { ...reset, custom: createDefaultCustomConfig() };
-      default:
-        return reset;
-    }
-  };
-
   const handleKindChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
     const nextKind = event.target.value as NodeKind;
     if (nextKind === activeNode.kind) {
@@ -283,13 +329,53 @@ export const InspectorPanel = ({
     onChange(activeNode.id, update);
   };
 
-  const createPortId = (prefix: string) => `${prefix}-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+  const updateBracket = (index: number, data: Partial<TaxBracket>) => {
+    const brackets = activeNode.taxBrackets ?? [];
+    onChange(activeNode.id, {
+      taxBrackets: brackets.map((bracket, bracketIndex) =>
+        bracketIndex === index ? { ...bracket, ...data } : bracket,
+      ),
+    });
+  };
+
+  const addBracket = () => {
+    const brackets = activeNode.taxBrackets ?? [];
+    const last = brackets[brackets.length - 1];
+    onChange(activeNode.id, {
+      taxBrackets: [...brackets, { threshold: last ? last.threshold + 10000 : 0, rate: last?.rate ?? 0.1 }],
+    });
+  };
+
+  const removeBracket = (index: number) => {
+    const brackets = activeNode.taxBrackets ?? [];
+    onChange(activeNode.id, { taxBrackets: brackets.filter((_, bracketIndex) => bracketIndex !== index) });
+  };
+
+  const createUniqueId = (prefix: string) => `${prefix}-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+
+  const updateEvent = (eventId: string, data: Partial<ScheduledEvent>) => {
+    const events = activeNode.events ?? [];
+    onChange(activeNode.id, {
+      events: events.map((item) => (item.id === eventId ? { ...item, ...data } : item)),
+    });
+  };
+
+  const addEvent = () => {
+    const events = activeNode.events ?? [];
+    const newEvent: ScheduledEvent = { id: createUniqueId('event'), label: 'Event', amount: 0, month: 1 };
+    onChange(activeNode.id, { events: [...events, newEvent] });
+  };
+
+  const removeEvent = (eventId: string) => {
+    const events = activeNode.events ?? [];
+    onChange(activeNode.id, { events: events.filter((item) => item.id !== eventId) });
+  };
 
   const addPort = (type: 'input' | 'output') => {
     if (!activeNode.custom) {
       return;
     }
-    const id = createPortId(type);
+    const id = createUniqueId(type);
     const newPort: PortDef = { id, label: type === 'input' ? 'Input' : 'Output' };
     if (type === 'input') {
       handleCustomUpdate({
@@ -418,6 +504,43 @@ export const InspectorPanel = ({
               ))}
             </select>
           </label>
+          <label className="panel-section">
+            <span className="label">Growth Rate (Annual)</span>
+            <input
+              type="number"
+              step="0.001"
+              value={activeNode.growthRateAnnual ?? ''}
+              onChange={handleOptionalNumberChange('growthRateAnnual')}
+            />
+          </label>
+          <label className="panel-section">
+            <span className="label">
+              Start Month
+              {activeNode.startMonth !== undefined && ` (${formatMonthLabel(simulation, activeNode.startMonth - 1)})`}
+            </span>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              placeholder="From the start"
+              value={activeNode.startMonth ?? ''}
+              onChange={handleOptionalNumberChange('startMonth')}
+            />
+          </label>
+          <label className="panel-section">
+            <span className="label">
+              End Month
+              {activeNode.endMonth !== undefined && ` (${formatMonthLabel(simulation, activeNode.endMonth - 1)})`}
+            </span>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              placeholder="Never ends"
+              value={activeNode.endMonth ?? ''}
+              onChange={handleOptionalNumberChange('endMonth')}
+            />
+          </label>
         </>
       )}
       {activeNode.kind === 'value' && (
@@ -441,11 +564,42 @@ export const InspectorPanel = ({
           </label>
         </>
       )}
+      {activeNode.kind === 'condition' && (
+        <>
+          <label className="panel-section">
+            <span className="label">Comparison</span>
+            <select
+              value={activeNode.comparison ?? 'gte'}
+              onChange={(event) => onChange(activeNode.id, { comparison: event.target.value as ComparisonOperator })}
+            >
+              {COMPARISON_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  Condition {option.label} Threshold
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="panel-section">
+            <span className="label">Threshold</span>
+            <input type="number" value={activeNode.threshold ?? ''} onChange={handleNumberChange('threshold')} />
+          </label>
+          <label className="panel-section">
+            <span className="label">Then Value (when not connected)</span>
+            <input type="number" value={activeNode.thenValue ?? ''} onChange={handleNumberChange('thenValue')} />
+          </label>
+          <label className="panel-section">
+            <span className="label">Else Value (when not connected)</span>
+            <input type="number" value={activeNode.elseValue ?? ''} onChange={handleNumberChange('elseValue')} />
+          </label>
+        </>
+      )}
       {activeNode.kind === 'calc' && (
-        <label className="panel-section">
-          <span className="label">Formula</span>
-          <input type="text" value={activeNode.formula ?? ''} onChange={handleTextChange('formula')} />
-        </label>
+        <FormulaField
+          value={activeNode.formula ?? ''}
+          inputs={getIncomingNodes(activeNode.id).map((item) => ({ id: item.id, label: item.label }))}
+          isGraphNode={(nodeId) => getNodeById(nodeId) !== null}
+          onChange={(formula) => onChange(activeNode.id, { formula })}
+        />
       )}
       {activeNode.kind === 'asset' && (
         <label className="panel-section">
@@ -458,12 +612,207 @@ export const InspectorPanel = ({
           />
         </label>
       )}
+      {activeNode.kind === 'loan' && (
+        <>
+          <label className="panel-section">
+            <span className="label">Principal</span>
+            <input type="number" value={activeNode.principal ?? ''} onChange={handleNumberChange('principal')} />
+          </label>
+          <label className="panel-section">
+            <span className="label">APR (Annual)</span>
+            <input
+              type="number"
+              step="0.001"
+              value={activeNode.interestRateAnnual ?? ''}
+              onChange={handleNumberChange('interestRateAnnual')}
+            />
+          </label>
+          <label className="panel-section">
+            <span className="label">Term (Months)</span>
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={activeNode.termMonths ?? ''}
+              onChange={handleNumberChange('termMonths')}
+            />
+          </label>
+          <label className="panel-section">
+            <span className="label">Extra Payment (Monthly)</span>
+            <input type="number" value={activeNode.extraPayment ?? ''} onChange={handleNumberChange('extraPayment')} />
+          </label>
+          {activeNode.loanSchedule && (
+            <div className="panel-section">
+              <div className="label">Amortization</div>
+              <div>Payment: {formatMoney(activeNode.loanSchedule.scheduledPayment)} / mo</div>
+              <div>Payoff: {formatLoanPayoff(activeNode.loanSchedule, simulation)}</div>
+              <div>Total interest: {formatMoney(activeNode.loanSchedule.totalInterest)}</div>
+              <table className="schedule-table">
+                <thead>
+                  <tr>
+                    <th>Year to</th>
+                    <th>Interest</th>
+                    <th>Principal</th>
+                    <th>Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {buildYearlyLoanRows(activeNode.loanSchedule, simulation).map((row) => (
+                    <tr key={row.label}>
+                      <td>{row.label}</td>
+                      <td>{formatMoney(row.interest)}</td>
+                      <td>{formatMoney(row.principal)}</td>
+                      <td>{formatMoney(row.balance)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+      {activeNode.kind === 'event' && (
+        <div className="panel-section">
+          <div className="label">Events</div>
+          {(activeNode.events ?? []).map((item) => (
+            <div key={item.id} className="event-row">
+              <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+                <input
+                  type="text"
+                  aria-label="Event label"
+                  value={item.label}
+                  onChange={(event) => updateEvent(item.id, { label: event.target.value })}
+                />
+                <button type="button" onClick={() => removeEvent(item.id)}>
+                  Remove
+                </button>
+              </div>
+              <label className="event-field">
+                <span>Amount</span>
+                <input
+                  type="number"
+                  value={item.amount}
+                  onChange={(event) => updateEvent(item.id, { amount: Number(event.target.value) || 0 })}
+                />
+              </label>
+              <label className="event-field">
+                <span>First month ({formatMonthLabel(simulation, Math.max(0, item.month - 1))})</span>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={item.month}
+                  onChange={(event) => updateEvent(item.id, { month: Number(event.target.value) || 1 })}
+                />
+              </label>
+              <label className="event-field">
+                <span>Repeat every (months)</span>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  placeholder="Once"
+                  value={item.repeatEveryMonths ?? ''}
+                  onChange={(event) =>
+                    updateEvent(item.id, { repeatEveryMonths: parseOptionalNumber(event.target.value) })
+                  }
+                />
+              </label>
+              {item.repeatEveryMonths !== undefined && (
+                <label className="event-field">
+                  <span>
+                    Until month
+                    {item.endMonth !== undefined && ` (${formatMonthLabel(simulation, item.endMonth - 1)})`}
+                  </span>
+                  <input
+                    type="number"
+                    min="1"
+                    step="1"
+                    placeholder="End of horizon"
+                    value={item.endMonth ?? ''}
+                    onChange={(event) => updateEvent(item.id, { endMonth: parseOptionalNumber(event.target.value) })}
+                  />
+                </label>
+              )}
+            </div>
+          ))}
+          <button type="button" style={{ marginTop: '12px' }} onClick={addEvent}>
+            Add Event
+          </button>
+        </div>
+      )}
+      {activeNode.kind === 'tax' && (
+        <>
+          <div className="panel-section">
+            <div className="label">Brackets (Annual Income)</div>
+            {(activeNode.taxBrackets ?? []).map((bracket, index) => (
+              <div key={index} style={{ display: 'flex', gap: '12px', alignItems: 'center', marginTop: '12px' }}>
+                <input
+                  type="number"
+                  aria-label="Threshold"
+                  value={bracket.threshold}
+                  onChange={(event) => updateBracket(index, { threshold: Number(event.target.value) || 0 })}
+                  style={{ width: '45%' }}
+                />
+                <input
+                  type="number"
+                  aria-label="Rate"
+                  step="0.01"
+                  value={bracket.rate}
+                  onChange={(event) => updateBracket(index, { rate: Number(event.target.value) || 0 })}
+                  style={{ width: '30%' }}
+                />
+                <button type="button" onClick={() => removeBracket(index)}>
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button type="button" style={{ marginTop: '12px' }} onClick={addBracket}>
+              Add Bracket
+            </button>
+          </div>
+          <label className="panel-section">
+            <span className="label">Standard Deduction (Annual)</span>
+            <input
+              type="number"
+              value={activeNode.standardDeduction ?? ''}
+              onChange={handleNumberChange('standardDeduction')}
+            />
+          </label>
+          <div className="panel-section">
+            <div className="label">Outputs</div>
+            {TAX_OUTPUT_PORTS.map((port) => (
+              <div key={port.id}>
+                {port.label} ({port.id}): {formatMoney(activeNode.outputValues?.[port.id] ?? 0)} / mo
+              </div>
+            ))}
+          </div>
+        </>
+      )}
       {activeNode.kind === 'output' && (
         <label className="panel-section">
           <span className="label">Target Amount</span>
           <input type="number" value={activeNode.targetAmount ?? ''} onChange={handleNumberChange('targetAmount')} />
         </label>
       )}
+      {activeNode.kind === 'output' && (
+        <label className="panel-section">
+          <span className="label">
+            Target Month
+            {activeNode.targetMonth !== undefined && ` (${formatMonthLabel(simulation, activeNode.targetMonth - 1)})`}
+          </span>
+          <input type="number" value={activeNode.targetMonth ?? ''} onChange={handleNumberChange('targetMonth')} />
+        </label>
+      )}
+      <PinFieldControl
+        node={activeNode}
+        pinnedControls={pinnedControls}
+        onPin={(field) => onPinField(activeNode.id, field)}
+      />
+      <DistributionEditor
+        node={activeNode}
+        onChange={(distributions) => onChange(activeNode.id, { distributions })}
+      />
       {activeNode.kind === 'custom' && customConfig && (
         <>
           <div className="panel-section">
@@ -565,12 +914,51 @@ export const InspectorPanel = ({
               Apply Internal Graph
             </button>
           </div>
+          <div className="panel-section">
+            <button type="button" onClick={() => onInlineCustomNode(activeNode.id)}>
+              Inline Custom Node
+            </button>
+          </div>
         </>
       )}
       <div className="panel-section">
         <div className="label">Computed</div>
-        <div>{activeNode.computedValue ?? '--'}</div>
+        <div>{formatComputedValue(activeNode, simulation)}</div>
       </div>
+      {activeNode.monteCarlo && (
+        <div className="panel-section">
+          <div className="label">Monte Carlo</div>
+          {activeNode.kind === 'output' ? (
+            activeNode.monteCarlo.reachProbability !== undefined && (
+              <div>
+                {Math.round(activeNode.monteCarlo.reachProbability * 100)}% chance of reaching the target by{' '}
+                {formatMonthLabel(
+                  simulation,
+                  Math.min(activeNode.targetMonth ?? simulation.horizonMonths, simulation.horizonMonths) - 1,
+                )}
+              </div>
+            )
+          ) : (
+            <>
+              <div>P10: {formatMonteCarloValue(activeNode, activeNode.monteCarlo.p10)}</div>
+              <div>P50: {formatMonteCarloValue(activeNode, activeNode.monteCarlo.p50)}</div>
+              <div>P90: {formatMonteCarloValue(activeNode, activeNode.monteCarlo.p90)}</div>
+            </>
+          )}
+          {activeNode.monteCarlo.failedRuns > 0 && (
+            <div style={{ color: '#dc2626' }}>{activeNode.monteCarlo.failedRuns} runs failed</div>
+          )}
+        </div>
+      )}
+      <SensitivityPanel key={activeNode.id} node={activeNode} simulation={simulation} onRun={onRunSensitivity} />
+      <GoalSeekPanel
+        key={`goal-seek-${activeNode.id}`}
+        node={activeNode}
+        simulation={simulation}
+        getNodes={getNodes}
+        onRun={onRunGoalSeek}
+        onApply={onApplyGoalSeek}
+      />
       <div className="panel-section">
         <button
           className="delete-button"
@@ -0,0 +1,36 @@
+import type { EconNodeData, PinnedControl, ScenarioField } from '../models/types';
+import { getScenarioFields } from '../engine/scenarios';
+import { SCENARIO_FIELD_LABELS } from './fieldLabels';
+
+type PinFieldControlProps = {
+  node: EconNodeData;
+  pinnedControls: PinnedControl[];
+  onPin: (field: ScenarioField) => void;
+};
+
+export const PinFieldControl = ({ node, pinnedControls, onPin }: PinFieldControlProps) => {
+  const fields = getScenarioFields(node.kind);
+  if (fields.length === 0) {
+    return null;
+  }
+  const pinned = new Set(
+    pinnedControls.filter((control) => control.nodeId === node.id).map((control) => control.field),
+  );
+
+  return (
+    <label className="panel-section">
+      <span className="label">Dashboard</span>
+      <select value="" onChange={(event) => onPin(event.target.value as ScenarioField)}>
+        <option value="" disabled>
+          Pin a slider…
+        </option>
+        {fields.map((field) => (
+          <option key={field} value={field} disabled={pinned.has(field)}>
+            {SCENARIO_FIELD_LABELS[field]}
+            {pinned.has(field) ? ' (pinned)' : ''}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
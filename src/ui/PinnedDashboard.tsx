@@ -0,0 +1,89 @@
+import type React from 'react';
+import type { EconNodeData, PinnedControl, Scenario, ScenarioField, SimulationSettings } from '../models/types';
+import { parseOptionalNumber } from './parseOptionalNumber';
+import { formatKeyResult } from './formatKeyResult';
+import { SCENARIO_FIELD_LABELS } from './fieldLabels';
+
+type PinnedDashboardProps = {
+  controls: PinnedControl[];
+  nodes: EconNodeData[];
+  scenario: Scenario | null;
+  simulation: SimulationSettings;
+  onValueChange: (nodeId: string, field: ScenarioField, value: number) => void;
+  onControlChange: (controlId: string, data: Partial<PinnedControl>) => void;
+  onUnpin: (controlId: string) => void;
+};
+
+export const PinnedDashboard = ({
+  controls,
+  nodes,
+  scenario,
+  simulation,
+  onValueChange,
+  onControlChange,
+  onUnpin,
+}: PinnedDashboardProps) => {
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+  const outputs = nodes.filter((node) => node.kind === 'output');
+
+  return (
+    <div className="dashboard">
+      {controls.map((control) => {
+        const node = nodesById.get(control.nodeId);
+        if (!node) {
+          return null;
+        }
+        // The active scenario's value is what the graph runs with, so the slider would have no visible effect.
+        const override = scenario?.overrides[control.nodeId]?.[control.field];
+        const value = override ?? node[control.field] ?? 0;
+        const updateBound = (key: 'min' | 'max' | 'step') => (event: React.ChangeEvent<HTMLInputElement>) => {
+          const next = parseOptionalNumber(event.target.value);
+          if (next !== undefined && (key !== 'step' || next > 0)) {
+            onControlChange(control.id, { [key]: next });
+          }
+        };
+        return (
+          <div key={control.id} className="dashboard-control">
+            <div className="dashboard-control-header">
+              <span>
+                {node.label} · {SCENARIO_FIELD_LABELS[control.field]}
+              </span>
+              <strong>{Number(value.toFixed(4))}</strong>
+              <button type="button" aria-label="Unpin" onClick={() => onUnpin(control.id)}>
+                ×
+              </button>
+            </div>
+            <input
+              type="range"
+              min={control.min}
+              max={control.max}
+              step={control.step}
+              value={value}
+              disabled={override !== undefined}
+              onChange={(event) => onValueChange(node.id, control.field, Number(event.target.value))}
+            />
+            {override !== undefined && <div className="dashboard-control-note">Set by scenario {scenario?.name}</div>}
+            <div className="dashboard-control-bounds">
+              <input type="number" aria-label="Min" value={control.min} onChange={updateBound('min')} />
+              <input type="number" aria-label="Max" value={control.max} onChange={updateBound('max')} />
+              <input type="number" aria-label="Step" value={control.step} onChange={updateBound('step')} />
+            </div>
+          </div>
+        );
+      })}
+      {outputs.length > 0 && (
+        <div className="dashboard-outputs">
+          {outputs.map((node) => (
+            <div key={node.id}>
+              <span className="label">{node.label}</span>
+              <strong>{formatKeyResult(node.computedValue, node.kind, simulation)}</strong>
+              {node.monteCarlo?.reachProbability !== undefined && (
+                <span> · {Math.round(node.monteCarlo.reachProbability * 100)}% chance</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
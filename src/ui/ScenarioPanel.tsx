@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import type { EconNodeData, Scenario, ScenarioComparison, ScenarioField, SimulationSettings } from '../models/types';
+import { getScenarioFields } from '../engine/scenarios';
+import { parseOptionalNumber } from './parseOptionalNumber';
+import { formatKeyResult } from './formatKeyResult';
+import { SCENARIO_FIELD_LABELS } from './fieldLabels';
+
+type ScenarioPanelProps = {
+  scenarios: Scenario[];
+  activeScenarioId: string | null;
+  simulation: SimulationSettings;
+  getNodes: () => EconNodeData[];
+  onChange: (scenarios: Scenario[]) => void;
+  onSelect: (scenarioId: string | null) => void;
+  onCompare: (scenarios: Scenario[]) => Promise<ScenarioComparison | null>;
+};
+
+export const ScenarioPanel = ({
+  scenarios,
+  activeScenarioId,
+  simulation,
+  getNodes,
+  onChange,
+  onSelect,
+  onCompare,
+}: ScenarioPanelProps) => {
+  const [comparison, setComparison] = useState<ScenarioComparison | null>(null);
+  const [compareError, setCompareError] = useState<string | null>(null);
+  const nodes = getNodes();
+  const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+  const refreshComparison = () => {
+    setCompareError(null);
+    onCompare(scenarios)
+      .then((next) => {
+        if (next) {
+          setComparison(next);
+        }
+      })
+      .catch((error: Error) => setCompareError(error.message));
+  };
+
+  useEffect(() => {
+    refreshComparison();
+  }, [scenarios, simulation]);
+
+  const updateScenario = (scenarioId: string, data: Partial<Scenario>) => {
+    onChange(scenarios.map((scenario) => (scenario.id === scenarioId ? { ...scenario, ...data } : scenario)));
+  };
+
+  const setOverride = (scenario: Scenario, nodeId: string, field: ScenarioField, value: number | undefined) => {
+    const nodeOverrides = { ...scenario.overrides[nodeId], [field]: value };
+    if (value === undefined) {
+      delete nodeOverrides[field];
+    }
+    const overrides = { ...scenario.overrides, [nodeId]: nodeOverrides };
+    if (Object.keys(nodeOverrides).length === 0) {
+      delete overrides[nodeId];
+    }
+    updateScenario(scenario.id, { overrides });
+  };
+
+  const handleAddScenario = () => {
+    const id = `scenario-${Date.now()}`;
+    onChange([...scenarios, { id, name: `Scenario ${scenarios.length + 1}`, overrides: {} }]);
+  };
+
+  const handleDeleteScenario = (scenarioId: string) => {
+    onChange(scenarios.filter((scenario) => scenario.id !== scenarioId));
+    if (scenarioId === activeScenarioId) {
+      onSelect(null);
+    }
+  };
+
+  return (
+    <div className="scenario-panel">
+      <div className="scenario-list">
+        {scenarios.map((scenario) => {
+          const rows = Object.entries(scenario.overrides).flatMap(([nodeId, fields]) =>
+            Object.entries(fields ?? {}).map(([field, value]) => ({ nodeId, field: field as ScenarioField, value })),
+          );
+          const available = nodes.flatMap((node) =>
+            getScenarioFields(node.kind)
+              .filter((field) => scenario.overrides[node.id]?.[field] === undefined)
+              .map((field) => ({ node, field })),
+          );
+          return (
+            <div key={scenario.id} className="event-row scenario-card">
+              <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+                <input
+                  type="text"
+                  aria-label="Scenario name"
+                  value={scenario.name}
+                  onChange={(event) => updateScenario(scenario.id, { name: event.target.value })}
+                  style={{ flex: 1 }}
+                />
+                <button type="button" onClick={() => handleDeleteScenario(scenario.id)}>
+                  Remove
+                </button>
+              </div>
+              {rows.map((row) => (
+                <label key={`${row.nodeId}:${row.field}`} className="event-field">
+                  <span>
+                    {nodesById.get(row.nodeId)?.label ?? row.nodeId} · {SCENARIO_FIELD_LABELS[row.field]}
+                  </span>
+                  <div style={{ display: 'flex', gap: '12px' }}>
+                    <input
+                      type="number"
+                      value={row.value ?? ''}
+                      onChange={(event) =>
+                        setOverride(scenario, row.nodeId, row.field, parseOptionalNumber(event.target.value) ?? 0)
+                      }
+                      style={{ flex: 1 }}
+                    />
+                    <button type="button" onClick={() => setOverride(scenario, row.nodeId, row.field, undefined)}>
+                      ×
+                    </button>
+                  </div>
+                </label>
+              ))}
+              {available.length > 0 && (
+                <select
+                  aria-label="Add override"
+                  value=""
+                  onChange={(event) => {
+                    const choice = available[Number(event.target.value)];
+                    setOverride(scenario, choice.node.id, choice.field, choice.node[choice.field] ?? 0);
+                  }}
+                >
+                  <option value="" disabled>
+                    Override a field…
+                  </option>
+                  {available.map((choice, index) => (
+                    <option key={`${choice.node.id}:${choice.field}`} value={index}>
+                      {choice.node.label} · {SCENARIO_FIELD_LABELS[choice.field]}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          );
+        })}
+        <button type="button" onClick={handleAddScenario}>
+          New Scenario
+        </button>
+      </div>
+      <div className="scenario-comparison">
+        <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+          <span className="label">Comparison</span>
+          <button type="button" onClick={refreshComparison}>
+            Refresh
+          </button>
+        </div>
+        {compareError && <div style={{ color: '#dc2626' }}>{compareError}</div>}
+        {comparison && (
+          <table className="schedule-table">
+            <thead>
+              <tr>
+                <th />
+                {comparison.scenarios.map((scenario) => (
+                  <th key={scenario.id ?? 'baseline'}>
+                    <button
+                      type="button"
+                      className="scenario-column"
+                      aria-pressed={scenario.id === activeScenarioId}
+                      onClick={() => onSelect(scenario.id)}
+                    >
+                      {scenario.name}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.rows.map((row) => (
+                <tr key={row.nodeId}>
+                  <td>{row.label}</td>
+                  {row.values.map((value, index) => (
+                    <td key={comparison.scenarios[index].id ?? 'baseline'}>
+                      {formatKeyResult(value, row.kind, simulation)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
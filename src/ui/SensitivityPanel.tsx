@@ -0,0 +1,55 @@
+import { useState } from 'react';
+import type { EconNodeData, SensitivityResult, SimulationSettings } from '../models/types';
+import { DEFAULT_SENSITIVITY_PERCENT } from '../engine/sensitivity';
+import { TornadoChart } from './TornadoChart';
+
+type SensitivityPanelProps = {
+  node: EconNodeData;
+  simulation: SimulationSettings;
+  onRun: (nodeId: string, percent: number) => Promise<SensitivityResult | null>;
+};
+
+export const SensitivityPanel = ({ node, simulation, onRun }: SensitivityPanelProps) => {
+  const [percent, setPercent] = useState(DEFAULT_SENSITIVITY_PERCENT);
+  const [result, setResult] = useState<SensitivityResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  if (node.kind !== 'output' && node.kind !== 'asset') {
+    return null;
+  }
+  const targetKind = node.kind;
+
+  const handleRun = () => {
+    setIsRunning(true);
+    setError(null);
+    onRun(node.id, percent)
+      .then((next) => {
+        if (next) {
+          setResult(next);
+        }
+      })
+      .catch((runError: Error) => {
+        setResult(null);
+        setError(runError.message);
+      })
+      .finally(() => setIsRunning(false));
+  };
+
+  return (
+    <div className="panel-section">
+      <div className="label">Sensitivity</div>
+      <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
+        <label className="event-field" style={{ flex: 1 }}>
+          <span>Change each input by ±%</span>
+          <input type="number" min={1} value={percent} onChange={(event) => setPercent(Number(event.target.value))} />
+        </label>
+        <button type="button" onClick={handleRun} disabled={isRunning}>
+          {isRunning ? 'Running…' : 'Run'}
+        </button>
+      </div>
+      {error && <div style={{ color: '#dc2626', marginTop: '12px' }}>{error}</div>}
+      {result && <TornadoChart result={result} targetKind={targetKind} simulation={simulation} />}
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import type React from 'react';
+import type { EconNodeData, SimulationSettings } from '../models/types';
+import { formatMonthLabel, getCalendarMonth } from '../engine/calendar';
+
+type TimeseriesChartProps = {
+  nodes: EconNodeData[];
+  simulation: SimulationSettings;
+};
+
+const WIDTH = 800;
+const HEIGHT = 220;
+const PADDING = { top: 12, right: 16, bottom: 24, left: 64 };
+const SERIES_COLORS = ['#2563eb', '#f97316', '#22c55e', '#a855f7', '#eab308', '#0ea5e9', '#e11d48'];
+
+const formatAxisValue = (value: number) => {
+  const magnitude = Math.abs(value);
+  if (magnitude >= 1_000_000) {
+    return `$${Number((value / 1_000_000).toFixed(1))}M`;
+  }
+  if (magnitude >= 1_000) {
+    return `$${Number((value / 1_000).toFixed(1))}k`;
+  }
+  return `$${Number(value.toFixed(2))}`;
+};
+
+const buildPath = (series: number[], toX: (month: number) => number, toY: (value: number) => number) =>
+  series.map((value, month) => `${month === 0 ? 'M' : 'L'}${toX(month).toFixed(1)},${toY(value).toFixed(1)}`).join('');
+
+export const TimeseriesChart = ({ nodes, simulation }: TimeseriesChartProps) => {
+  const [hoverMonth, setHoverMonth] = useState<number | null>(null);
+  const plotted = nodes.filter((node) => node.timeseries && node.timeseries.length > 0);
+  if (plotted.length === 0) {
+    return null;
+  }
+
+  const months = Math.max(...plotted.map((node) => node.timeseries!.length));
+  const targets = plotted
+    .filter((node) => node.kind === 'output' && node.targetAmount !== undefined)
+    .map((node) => ({ node, value: node.targetAmount! }));
+  const values = plotted.flatMap((node) => node.timeseries!).concat(targets.map((target) => target.value), 0);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min || 1;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const toX = (month: number) => PADDING.left + (months > 1 ? (month / (months - 1)) * plotWidth : 0);
+  const toY = (value: number) => PADDING.top + (1 - (value - min) / span) * plotHeight;
+  const yTicks = [0, 1, 2, 3, 4].map((step) => min + (span * step) / 4);
+  const yearStep = months > 240 ? 24 : 12;
+  const firstJanuary = (13 - getCalendarMonth(simulation, 0).month) % 12;
+  const xTicks: number[] = [];
+  for (let month = firstJanuary; month < months; month += yearStep) {
+    xTicks.push(month);
+  }
+  const colorOf = (index: number) => SERIES_COLORS[index % SERIES_COLORS.length];
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - bounds.left) / bounds.width) * WIDTH;
+    const month = Math.round(((x - PADDING.left) / plotWidth) * (months - 1));
+    setHoverMonth(Math.min(months - 1, Math.max(0, month)));
+  };
+
+  return (
+    <div className="chart-panel">
+      <div className="chart-readout">
+        {hoverMonth === null ? (
+          <span className="label">Hover the chart to read values</span>
+        ) : (
+          <span className="label">{formatMonthLabel(simulation, hoverMonth)}</span>
+        )}
+        {plotted.map((node, index) => (
+          <span key={node.id} className="chart-legend-item">
+            <span className="chart-swatch" style={{ background: colorOf(index) }} />
+            {node.label}
+            {hoverMonth !== null && `: ${formatAxisValue(node.timeseries![hoverMonth] ?? 0)}`}
+          </span>
+        ))}
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        width="100%"
+        role="img"
+        aria-label="Timeseries chart"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverMonth(null)}
+      >
+        {yTicks.map((tick) => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={toY(tick)} y2={toY(tick)} className="chart-grid" />
+            <text x={PADDING.left - 6} y={toY(tick) + 4} textAnchor="end" className="chart-axis">
+              {formatAxisValue(tick)}
+            </text>
+          </g>
+        ))}
+        {xTicks.map((month) => (
+          <text key={month} x={toX(month)} y={HEIGHT - 6} textAnchor="middle" className="chart-axis">
+            {getCalendarMonth(simulation, month).year}
+          </text>
+        ))}
+        {targets.map(({ node, value }) => (
+          <g key={`target-${node.id}`}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={toY(value)}
+              y2={toY(value)}
+              className="chart-target"
+            />
+            {node.computedValue !== undefined && node.computedValue > 0 && (
+              <g>
+                <line
+                  x1={toX(node.computedValue - 1)}
+                  x2={toX(node.computedValue - 1)}
+                  y1={PADDING.top}
+                  y2={HEIGHT - PADDING.bottom}
+                  className="chart-target"
+                />
+                <circle cx={toX(node.computedValue - 1)} cy={toY(value)} r={4} className="chart-crossing">
+                  <title>
+                    {node.label} reaches {formatAxisValue(value)} in{' '}
+                    {formatMonthLabel(simulation, node.computedValue - 1)}
+                  </title>
+                </circle>
+              </g>
+            )}
+          </g>
+        ))}
+        {plotted.map((node, index) => (
+          <path
+            key={node.id}
+            d={buildPath(node.timeseries!, toX, toY)}
+            fill="none"
+            stroke={colorOf(index)}
+            strokeWidth={2}
+          />
+        ))}
+        {hoverMonth !== null && (
+          <g>
+            <line
+              x1={toX(hoverMonth)}
+              x2={toX(hoverMonth)}
+              y1={PADDING.top}
+              y2={HEIGHT - PADDING.bottom}
+              className="chart-crosshair"
+            />
+            {plotted.map((node, index) => (
+              <circle
+                key={node.id}
+                cx={toX(hoverMonth)}
+                cy={toY(node.timeseries![hoverMonth] ?? 0)}
+                r={3}
+                fill={colorOf(index)}
+              />
+            ))}
+          </g>
+        )}
+      </svg>
+    </div>
+  );
+};
@@ -1,14 +1,30 @@
 import type React from 'react';
 import { useRef } from 'react';
-import type { GraphData } from '../models/types';
+import type { GraphData, MonteCarloSettings, Scenario, SimulationSettings } from '../models/types';
+import { MONTH_OPTIONS } from '../engine/calendar';
+import { DEFAULT_MONTE_CARLO_SETTINGS, getMaxMonteCarloRuns } from '../engine/monteCarlo';
+import { BASELINE_SCENARIO_NAME } from '../engine/scenarios';
 
 type ToolbarProps = {
   onExport: () => GraphData;
   onImport: (data: GraphData) => void;
-  disableCoffee: boolean;
-  onToggleCoffee: (value: boolean) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  scenarios: Scenario[];
+  activeScenarioId: string | null;
+  onScenarioChange: (scenarioId: string | null) => void;
+  isScenarioPanelOpen: boolean;
+  onToggleScenarioPanel: () => void;
   nodeScale: number;
   onNodeScaleChange: (value: number) => void;
+  simulation: SimulationSettings;
+  onSimulationChange: (settings: SimulationSettings) => void;
+  isComputing?: boolean;
+  computeError?: string | null;
+  monteCarlo: MonteCarloSettings | null;
+  onMonteCarloChange: (settings: MonteCarloSettings | null) => void;
   isCustomView?: boolean;
   onExitCustomView?: () => void;
   theme: 'light' | 'dark';
@@ -18,16 +34,30 @@ type ToolbarProps = {
 export const Toolbar = ({
   onExport,
   onImport,
-  disableCoffee,
-  onToggleCoffee,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  scenarios,
+  activeScenarioId,
+  onScenarioChange,
+  isScenarioPanelOpen,
+  onToggleScenarioPanel,
   nodeScale,
   onNodeScaleChange,
+  simulation,
+  onSimulationChange,
+  isComputing,
+  computeError,
+  monteCarlo,
+  onMonteCarloChange,
   isCustomView,
   onExitCustomView,
   theme,
   onToggleTheme,
 }: ToolbarProps) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const maxMonteCarloRuns = getMaxMonteCarloRuns(simulation.horizonMonths);
 
   const handleExport = () => {
     const data = onExport();
@@ -69,16 +99,37 @@ export const Toolbar = ({
           Back to Main Graph
         </button>
       )}
+      <button type="button" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+        Undo
+      </button>
+      <button type="button" onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+        Redo
+      </button>
       <button type="button" onClick={handleExport}>
         Export JSON
       </button>
       <button type="button" onClick={handleImportClick}>
         Import JSON
       </button>
-      <label className="toolbar-checkbox">
-        <input type="checkbox" checked={disableCoffee} onChange={(event) => onToggleCoffee(event.target.checked)} />
-        Disable coffee
+      <label className="toolbar-field">
+        <span>Scenario</span>
+        <select value={activeScenarioId ?? ''} onChange={(event) => onScenarioChange(event.target.value || null)}>
+          <option value="">{BASELINE_SCENARIO_NAME}</option>
+          {scenarios.map((scenario) => (
+            <option key={scenario.id} value={scenario.id}>
+              {scenario.name}
+            </option>
+          ))}
+        </select>
       </label>
+      <button
+        type="button"
+        className="toolbar-toggle"
+        onClick={onToggleScenarioPanel}
+        aria-pressed={isScenarioPanelOpen}
+      >
+        Scenarios
+      </button>
       <label className="toolbar-scale">
         <span>Node scale</span>
         <input
@@ -91,6 +142,85 @@ export const Toolbar = ({
         />
         <span>{Math.round(nodeScale * 100)}%</span>
       </label>
+      <label className="toolbar-field">
+        <span>Horizon</span>
+        <input
+          type="number"
+          min="1"
+          max="100"
+          step="1"
+          value={Math.round((simulation.horizonMonths / 12) * 100) / 100}
+          onChange={(event) => {
+            const years = Number(event.target.value);
+            if (Number.isFinite(years) && years > 0) {
+              onSimulationChange({ ...simulation, horizonMonths: Math.round(years * 12) });
+            }
+          }}
+        />
+        <span>yrs</span>
+      </label>
+      <label className="toolbar-field">
+        <span>Start</span>
+        <select
+          value={simulation.startMonth}
+          onChange={(event) => onSimulationChange({ ...simulation, startMonth: Number(event.target.value) })}
+        >
+          {MONTH_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          step="1"
+          value={simulation.startYear}
+          onChange={(event) => {
+            const year = Number(event.target.value);
+            if (Number.isFinite(year) && event.target.value !== '') {
+              onSimulationChange({ ...simulation, startYear: year });
+            }
+          }}
+        />
+      </label>
+      <label className="toolbar-checkbox">
+        <input
+          type="checkbox"
+          checked={Boolean(monteCarlo)}
+          onChange={(event) => onMonteCarloChange(event.target.checked ? DEFAULT_MONTE_CARLO_SETTINGS : null)}
+        />
+        Monte Carlo
+      </label>
+      {monteCarlo && (
+        <label className="toolbar-field">
+          <span>Runs</span>
+          <input
+            type="number"
+            min="1"
+            max={maxMonteCarloRuns}
+            step="50"
+            value={monteCarlo.runs}
+            onChange={(event) => {
+              const runs = Math.round(Number(event.target.value));
+              if (runs >= 1 && runs <= maxMonteCarloRuns) {
+                onMonteCarloChange({ ...monteCarlo, runs });
+              }
+            }}
+          />
+          <span>Seed</span>
+          <input
+            type="number"
+            step="1"
+            value={monteCarlo.seed}
+            onChange={(event) => {
+              const seed = Math.round(Number(event.target.value));
+              if (Number.isFinite(seed) && event.target.value !== '') {
+                onMonteCarloChange({ ...monteCarlo, seed });
+              }
+            }}
+          />
+        </label>
+      )}
       <button
         type="button"
         className="toolbar-toggle"
@@ -99,6 +229,12 @@ export const Toolbar = ({
       >
         {theme === 'dark' ? 'Light mode' : 'Dark mode'}
       </button>
+      {isComputing && <span className="toolbar-status">Computing…</span>}
+      {computeError && (
+        <span className="toolbar-status" style={{ color: '#dc2626' }}>
+          {computeError}
+        </span>
+      )}
       <input ref={fileInputRef} type="file" accept="application/json" onChange={handleFileChange} hidden />
     </div>
   );
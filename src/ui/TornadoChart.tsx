@@ -0,0 +1,86 @@
+import type { SensitivityResult, SimulationSettings } from '../models/types';
+import { formatMonthLabel } from '../engine/calendar';
+import { UNCERTAIN_FIELD_LABELS } from './fieldLabels';
+
+type TornadoChartProps = {
+  result: SensitivityResult;
+  targetKind: 'output' | 'asset';
+  simulation: SimulationSettings;
+};
+
+const WIDTH = 320;
+const ROW_HEIGHT = 34;
+const BAR_HEIGHT = 12;
+const PADDING = 8;
+
+const formatSensitivityValue = (
+  value: number,
+  targetKind: 'output' | 'asset',
+  months: number,
+  simulation: SimulationSettings,
+) => {
+  if (targetKind === 'asset') {
+    return `$${value.toFixed(0)}`;
+  }
+  return value > months ? 'Not reached' : formatMonthLabel(simulation, value - 1);
+};
+
+export const TornadoChart = ({ result, targetKind, simulation }: TornadoChartProps) => {
+  const entries = result.entries.filter((entry) => !entry.error);
+  if (entries.length === 0) {
+    return <div>No numeric inputs change this result.</div>;
+  }
+  const values = entries.flatMap((entry) => [entry.low, entry.high]).concat(result.baseline);
+  const min = Math.min(...values);
+  const span = Math.max(...values) - min || 1;
+  const toX = (value: number) => PADDING + ((value - min) / span) * (WIDTH - PADDING * 2);
+  const baselineX = toX(result.baseline);
+  const height = entries.length * ROW_HEIGHT + PADDING;
+  const format = (value: number) => formatSensitivityValue(value, targetKind, result.months, simulation);
+
+  return (
+    <div className="tornado-chart">
+      <div className="tornado-legend">
+        <span className="tornado-swatch tornado-low" />−{result.percent}%
+        <span className="tornado-swatch tornado-high" />+{result.percent}%
+        <span>Baseline {format(result.baseline)}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} width="100%" role="img" aria-label="Sensitivity tornado chart">
+        {entries.map((entry, index) => {
+          const y = index * ROW_HEIGHT;
+          const bar = (value: number, className: string) => {
+            const x = toX(value);
+            return (
+              <rect
+                className={className}
+                x={Math.min(x, baselineX)}
+                y={y + 16}
+                width={Math.max(Math.abs(x - baselineX), 1)}
+                height={BAR_HEIGHT}
+              >
+                <title>{format(value)}</title>
+              </rect>
+            );
+          };
+          return (
+            <g key={`${entry.nodeId}-${entry.field}`}>
+              <text x={PADDING} y={y + 12} className="tornado-label">
+                {entry.nodeLabel} · {UNCERTAIN_FIELD_LABELS[entry.field]}
+              </text>
+              {bar(entry.low, 'tornado-low')}
+              {bar(entry.high, 'tornado-high')}
+            </g>
+          );
+        })}
+        <line x1={baselineX} x2={baselineX} y1={0} y2={height} className="tornado-baseline" />
+      </svg>
+      {result.entries
+        .filter((entry) => entry.error)
+        .map((entry) => (
+          <div key={`${entry.nodeId}-${entry.field}`} className="formula-diagnostics">
+            {entry.nodeLabel} · {UNCERTAIN_FIELD_LABELS[entry.field]}: {entry.error}
+          </div>
+        ))}
+    </div>
+  );
+};
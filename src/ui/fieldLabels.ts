@@ -0,0 +1,22 @@
+import type { ScenarioField, UncertainField } from '../models/types';
+
+export const UNCERTAIN_FIELD_LABELS: Record<UncertainField, string> = {
+  baseValue: 'Base Value',
+  growthRateAnnual: 'Growth Rate',
+  leftValue: 'Input 1',
+  rightValue: 'Input 2',
+  threshold: 'Threshold',
+  thenValue: 'Then Value',
+  elseValue: 'Else Value',
+  interestRateAnnual: 'Interest Rate',
+  principal: 'Principal',
+  extraPayment: 'Extra Payment',
+  standardDeduction: 'Standard Deduction',
+  targetAmount: 'Target Amount',
+};
+
+export const SCENARIO_FIELD_LABELS: Record<ScenarioField, string> = {
+  ...UNCERTAIN_FIELD_LABELS,
+  startMonth: 'Start Month',
+  endMonth: 'End Month',
+};
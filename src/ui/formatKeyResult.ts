@@ -0,0 +1,15 @@
+import type { NodeKind, SimulationSettings } from '../models/types';
+import { formatMonthLabel } from '../engine/calendar';
+
+export const formatKeyResult = (value: number | null | undefined, kind: NodeKind, simulation: SimulationSettings) => {
+  if (value === undefined) {
+    return '--';
+  }
+  if (value === null) {
+    return 'Error';
+  }
+  if (kind === 'output') {
+    return value < 0 ? 'Not reached' : formatMonthLabel(simulation, value - 1);
+  }
+  return `$${value.toFixed(0)}`;
+};
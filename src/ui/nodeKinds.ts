@@ -0,0 +1,142 @@
+import type { CustomNodeConfig, EconNodeData, NodeKind, TimeUnit } from '../models/types';
+
+export const TIME_UNIT_OPTIONS: { value: TimeUnit; label: string }[] = [
+  { value: 'per_day', label: 'Per Day' },
+  { value: 'per_week', label: 'Per Week' },
+  { value: 'per_month', label: 'Per Month' },
+  { value: 'per_year', label: 'Per Year' },
+];
+
+export const NODE_KIND_GROUPS: { label: string; options: { value: NodeKind; label: string }[] }[] = [
+  {
+    label: 'Basic Math',
+    options: [
+      { value: 'value', label: 'Value' },
+      { value: 'add', label: 'Add' },
+      { value: 'subtract', label: 'Subtract' },
+      { value: 'multiply', label: 'Multiply' },
+      { value: 'divide', label: 'Divide' },
+      { value: 'condition', label: 'Condition' },
+    ],
+  },
+  {
+    label: 'Economy',
+    options: [
+      { value: 'income', label: 'Income' },
+      { value: 'expense', label: 'Expense' },
+      { value: 'calc', label: 'Calc' },
+      { value: 'asset', label: 'Asset' },
+      { value: 'loan', label: 'Loan' },
+      { value: 'tax', label: 'Tax' },
+      { value: 'event', label: 'Events' },
+      { value: 'output', label: 'Output' },
+      { value: 'custom', label: 'Custom' },
+    ],
+  },
+];
+
+const createDefaultCustomConfig = (): CustomNodeConfig => {
+  const inputPortId = 'in-1';
+  const outputPortId = 'out-1';
+  const internalInputId = 'internal-input';
+  const internalOutputId = 'internal-output';
+
+  return {
+    inputs: [{ id: inputPortId, label: 'Input' }],
+    outputs: [{ id: outputPortId, label: 'Output' }],
+    internalGraph: {
+      nodes: [
+        {
+          id: internalInputId,
+          label: 'Input',
+          kind: 'value',
+          baseValue: 0,
+        },
+        {
+          id: internalOutputId,
+          label: 'Output',
+          kind: 'value',
+          baseValue: 0,
+        },
+      ],
+      edges: [],
+    },
+    inputBindings: {
+      [inputPortId]: internalInputId,
+    },
+    outputBindings: {
+      [outputPortId]: internalOutputId,
+    },
+  };
+};
+
+export const buildKindUpdate = (kind: NodeKind): Partial<EconNodeData> => {
+  const reset: Partial<EconNodeData> = {
+    kind,
+    baseValue: undefined,
+    timeUnit: undefined,
+    growthRateAnnual: undefined,
+    startMonth: undefined,
+    endMonth: undefined,
+    leftValue: undefined,
+    rightValue: undefined,
+    formula: undefined,
+    interestRateAnnual: undefined,
+    principal: undefined,
+    termMonths: undefined,
+    extraPayment: undefined,
+    loanSchedule: undefined,
+    taxBrackets: undefined,
+    standardDeduction: undefined,
+    events: undefined,
+    targetAmount: undefined,
+    custom: undefined,
+    outputValues: undefined,
+    input1Value: undefined,
+    input2Value: undefined,
+    input3Value: undefined,
+    input1Connected: undefined,
+    input2Connected: undefined,
+    input3Connected: undefined,
+    comparison: undefined,
+    threshold: undefined,
+    thenValue: undefined,
+    elseValue: undefined,
+    timeseries: undefined,
+    targetMonth: undefined,
+    distributions: undefined,
+    monteCarlo: undefined,
+  };
+
+  switch (kind) {
+    case 'income':
+    case 'expense':
+      return { ...reset, baseValue: 0, timeUnit: 'per_month' };
+    case 'value':
+      return { ...reset, baseValue: 0 };
+    case 'add':
+    case 'subtract':
+      return { ...reset, leftValue: 0, rightValue: 0 };
+    case 'multiply':
+    case 'divide':
+      return { ...reset, leftValue: 1, rightValue: 1 };
+    case 'condition':
+      return { ...reset, comparison: 'gte', threshold: 0, thenValue: 0, elseValue: 0 };
+    case 'calc':
+      return { ...reset, formula: '' };
+    case 'asset':
+      return { ...reset, interestRateAnnual: 0 };
+    case 'loan':
+      return { ...reset, principal: 0, interestRateAnnual: 0, termMonths: 360, extraPayment: 0 };
+    case 'event':
+      return { ...reset, events: [] };
+    case 'tax':
+      return { ...reset, taxBrackets: [{ threshold: 0, rate: 0.1 }], standardDeduction: 0 };
+    case 'output':
+      return { ...reset, targetAmount: 0 };
+    case 'custom':
+      return { ...reset, custom: createDefaultCustomConfig() };
+    default:
+      return reset;
+  }
+};
@@ -0,0 +1,16 @@
+export const getDefaultBounds = (value: number) => {
+  if (value === 0) {
+    return { min: 0, max: 100 };
+  }
+  return value > 0 ? { min: 0, max: value * 2 } : { min: value * 2, max: 0 };
+};
+
+export const getDefaultStep = (min: number, max: number) => {
+  const span = Math.abs(max - min) / 100;
+  if (span === 0) {
+    return 1;
+  }
+  const magnitude = 10 ** Math.floor(Math.log10(span));
+  const normalized = span / magnitude;
+  return (normalized >= 5 ? 5 : normalized >= 2 ? 2 : 1) * magnitude;
+};
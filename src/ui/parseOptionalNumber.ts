@@ -0,0 +1,7 @@
+export const parseOptionalNumber = (value: string) => {
+  if (value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};